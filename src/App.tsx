@@ -1,76 +1,144 @@
-import { useState, type ReactElement } from 'react'
-import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom'
+import type { ReactElement } from 'react'
+import { BrowserRouter, Navigate, Route, Routes, useLocation } from 'react-router-dom'
 import LoginPage from './pages/LoginPage'
 import SurveyDetailPage from './pages/SurveyDetailPage'
 import SurveysPage from './pages/SurveysPage'
 import DashboardPage from './pages/DashboardPage'
 import SurveyMetricsPage from './pages/SurveyMetricsPage'
+import SurveyVotesPage from './pages/SurveyVotesPage'
+import SurveyResponsesPage from './pages/SurveyResponsesPage'
+import SurveyComparePage from './pages/SurveyComparePage'
 import CreateSurveyPage from './pages/CreateSurveyPage'
-import { authApi } from './services/api'
+import TemplatesPage from './pages/TemplatesPage'
+import UsersPage from './pages/UsersPage'
+import AuditLogPage from './pages/AuditLogPage'
+import ForbiddenPage from './pages/ForbiddenPage'
+import AuthProvider from './components/AuthProvider'
+import { useAuth } from './hooks/useAuth'
+import { authApi, buildLoginPath } from './services/api'
+import type { Permission } from './utils/permissions'
 
 const ProtectedRoute = ({ children }: { children: ReactElement }) => {
+  const location = useLocation()
+  // Assina o contexto para reavaliar a sessão quando ela muda, inclusive em outra aba.
+  useAuth()
   const token = authApi.ensureValidSession()
   if (!token) {
-    return <Navigate to="/login" replace />
+    return <Navigate to={buildLoginPath(`${location.pathname}${location.search}`)} replace />
   }
   return children
 }
 
-const App = () => {
-  const [, setAuthWatcher] = useState(0)
+/** ProtectedRoute que também exige uma permissão do papel do usuário; sem ela, mostra o acesso negado. */
+const RoleProtectedRoute = ({ permission, children }: { permission: Permission; children: ReactElement }) => {
+  const { can } = useAuth()
+  return <ProtectedRoute>{can(permission) ? children : <ForbiddenPage />}</ProtectedRoute>
+}
 
-  const handleLogin = () => {
-    setAuthWatcher((prev) => prev + 1)
-  }
+const HomeRedirect = () => {
+  const { can } = useAuth()
+  return <Navigate to={can('metrics:view') ? '/dashboard' : '/surveys'} replace />
+}
 
+const App = () => {
   return (
-    <BrowserRouter>
-      <Routes>
-        <Route path="/login" element={<LoginPage onLogin={handleLogin} />} />
-        <Route
-          path="/dashboard"
-          element={
-            <ProtectedRoute>
-              <DashboardPage />
-            </ProtectedRoute>
-          }
-        />
-        <Route
-          path="/surveys"
-          element={
-            <ProtectedRoute>
-              <SurveysPage />
-            </ProtectedRoute>
-          }
-        />
-        <Route
-          path="/surveys/new"
-          element={
-            <ProtectedRoute>
-              <CreateSurveyPage />
-            </ProtectedRoute>
-          }
-        />
-        <Route
-          path="/surveys/:id"
-          element={
-            <ProtectedRoute>
-              <SurveyDetailPage />
-            </ProtectedRoute>
-          }
-        />
-        <Route
-          path="/surveys/:id/metrics"
-          element={
-            <ProtectedRoute>
-              <SurveyMetricsPage />
-            </ProtectedRoute>
-          }
-        />
-        <Route path="/" element={<Navigate to="/dashboard" replace />} />
-        <Route path="*" element={<Navigate to="/dashboard" replace />} />
-      </Routes>
-    </BrowserRouter>
+    <AuthProvider>
+      <BrowserRouter>
+        <Routes>
+          <Route path="/login" element={<LoginPage />} />
+          <Route
+            path="/dashboard"
+            element={
+              <RoleProtectedRoute permission="metrics:view">
+                <DashboardPage />
+              </RoleProtectedRoute>
+            }
+          />
+          <Route
+            path="/surveys"
+            element={
+              <ProtectedRoute>
+                <SurveysPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/surveys/new"
+            element={
+              <RoleProtectedRoute permission="survey:create">
+                <CreateSurveyPage />
+              </RoleProtectedRoute>
+            }
+          />
+          <Route
+            path="/surveys/compare"
+            element={
+              <RoleProtectedRoute permission="metrics:view">
+                <SurveyComparePage />
+              </RoleProtectedRoute>
+            }
+          />
+          <Route
+            path="/surveys/:id"
+            element={
+              <ProtectedRoute>
+                <SurveyDetailPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/surveys/:id/metrics"
+            element={
+              <RoleProtectedRoute permission="metrics:view">
+                <SurveyMetricsPage />
+              </RoleProtectedRoute>
+            }
+          />
+          <Route
+            path="/surveys/:id/votes"
+            element={
+              <ProtectedRoute>
+                <SurveyVotesPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/surveys/:id/responses"
+            element={
+              <ProtectedRoute>
+                <SurveyResponsesPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/templates"
+            element={
+              <ProtectedRoute>
+                <TemplatesPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/users"
+            element={
+              <RoleProtectedRoute permission="user:manage">
+                <UsersPage />
+              </RoleProtectedRoute>
+            }
+          />
+          <Route
+            path="/activity"
+            element={
+              <RoleProtectedRoute permission="audit:view">
+                <AuditLogPage />
+              </RoleProtectedRoute>
+            }
+          />
+          <Route path="/" element={<HomeRedirect />} />
+          <Route path="*" element={<HomeRedirect />} />
+        </Routes>
+      </BrowserRouter>
+    </AuthProvider>
   )
 }
 
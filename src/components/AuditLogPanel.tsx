@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { auditApi, isOwnCorrelationId, parseApiError } from '../services/api'
+import type { AuditAction, AuditEntityType, AuditEntry, AuditLogFilters } from '../types/api'
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  auditFieldLabel,
+  describeAuditEntry,
+  formatAuditValue,
+  groupAuditEntries,
+} from '../utils/audit'
+import { formatDateTime } from '../utils/format'
+
+type AuditLogPanelProps = {
+  /** Restringe o histórico a uma pesquisa; sem ele, mostra a atividade de todo o backoffice. */
+  surveyId?: number
+}
+
+const AuditLogPanel = ({ surveyId }: AuditLogPanelProps) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string>()
+  const [filters, setFilters] = useState<Omit<AuditLogFilters, 'surveyId'>>({})
+  const [usernameInput, setUsernameInput] = useState('')
+  const [nextPage, setNextPage] = useState<number | null>(null)
+  // Só a resposta da última busca é aplicada: trocar filtros rápido não mistura resultados.
+  const latestRequest = useRef(0)
+
+  const fetchEntries = useCallback(
+    async (page = 0) => {
+      const request = ++latestRequest.current
+      setLoading(true)
+      setError(undefined)
+      try {
+        const result = await auditApi.list({ ...filters, surveyId }, { page })
+        if (request !== latestRequest.current) return
+        setEntries((prev) => {
+          if (page === 0) return result.entries
+          const known = new Set(prev.map((entry) => entry.id))
+          return [...prev, ...result.entries.filter((entry) => !known.has(entry.id))]
+        })
+        setNextPage(result.hasMore ? page + 1 : null)
+      } catch (err) {
+        if (request === latestRequest.current) setError(parseApiError(err))
+      } finally {
+        if (request === latestRequest.current) setLoading(false)
+      }
+    },
+    [filters, surveyId],
+  )
+
+  useEffect(() => {
+    void fetchEntries()
+  }, [fetchEntries])
+
+  const groups = useMemo(() => groupAuditEntries(entries), [entries])
+
+  const updateFilter = <K extends keyof typeof filters>(key: K, value: (typeof filters)[K] | '') =>
+    setFilters((prev) => ({ ...prev, [key]: value || undefined }))
+
+  return (
+    <section className="panel">
+      <div className="panel-header">
+        <div>
+          <p className="eyebrow">Auditoria</p>
+          <h2>{surveyId ? 'Atividade da pesquisa' : 'Atividade recente'}</h2>
+          <p className="section-subtitle">
+            Quem alterou pesquisas, perguntas e opções, quando e quais valores mudaram.
+          </p>
+        </div>
+        <div className="hero-actions">
+          <button className="btn ghost" type="button" onClick={() => void fetchEntries()} disabled={loading}>
+            {loading ? 'Atualizando...' : 'Atualizar'}
+          </button>
+        </div>
+      </div>
+
+      <form
+        className="filter-group"
+        style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }}
+        onSubmit={(event) => {
+          event.preventDefault()
+          updateFilter('username', usernameInput.trim())
+        }}
+      >
+        <label>
+          <span>Item</span>
+          <select
+            value={filters.entityType ?? ''}
+            onChange={(event) => updateFilter('entityType', event.target.value as AuditEntityType | '')}
+          >
+            <option value="">Todos</option>
+            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+              <option key={type} value={type}>
+                {AUDIT_ENTITY_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span>Ação</span>
+          <select
+            value={filters.action ?? ''}
+            onChange={(event) => updateFilter('action', event.target.value as AuditAction | '')}
+          >
+            <option value="">Todas</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((action) => (
+              <option key={action} value={action}>
+                {AUDIT_ACTION_LABELS[action]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span>Usuário</span>
+          <input
+            type="search"
+            value={usernameInput}
+            onChange={(event) => setUsernameInput(event.target.value)}
+            onBlur={() => updateFilter('username', usernameInput.trim())}
+            placeholder="Login"
+          />
+        </label>
+        {filters.correlationId && (
+          <button className="btn ghost small" type="button" onClick={() => updateFilter('correlationId', '')}>
+            Requisição {filters.correlationId.slice(0, 8)} ×
+          </button>
+        )}
+      </form>
+
+      {error && <p className="error-text">{error}</p>}
+      {!loading && !error && groups.length === 0 && <p className="muted-text">Nenhuma alteração registrada.</p>}
+
+      <ol className="audit-timeline">
+        {groups.map((group) => (
+          <li key={group.key} className="audit-timeline__item">
+            <div className="audit-timeline__meta">
+              <strong>{group.username || 'Sistema'}</strong>
+              <span className="muted-text">{formatDateTime(group.timestamp, { withSeconds: true })}</span>
+              {group.correlationId && (
+                <button
+                  className="status-pill neutral"
+                  type="button"
+                  title={`X-Correlation-Id ${group.correlationId}. Clique para ver só esta requisição.`}
+                  onClick={() => updateFilter('correlationId', group.correlationId)}
+                >
+                  {group.correlationId.slice(0, 8)}
+                </button>
+              )}
+              {isOwnCorrelationId(group.correlationId) && (
+                <span className="status-pill success">Feita nesta aba</span>
+              )}
+            </div>
+            <ul className="simple-list">
+              {group.entries.map((entry) => (
+                <li key={entry.id}>
+                  <span>{describeAuditEntry(entry)}</span>
+                  {!surveyId && entry.surveyId && (
+                    <>
+                      {' '}
+                      <Link to={`/surveys/${entry.surveyId}`} className="muted-text">
+                        (pesquisa #{entry.surveyId})
+                      </Link>
+                    </>
+                  )}
+                  {(entry.changes ?? []).length > 0 && (
+                    <table className="simple-table audit-changes">
+                      <tbody>
+                        {(entry.changes ?? []).map((change) => (
+                          <tr key={change.field}>
+                            <th>{auditFieldLabel(change.field)}</th>
+                            <td className="audit-changes__before">{formatAuditValue(change.field, change.before)}</td>
+                            <td>→</td>
+                            <td>{formatAuditValue(change.field, change.after)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+      {nextPage !== null && (
+        <button
+          className="btn ghost small"
+          type="button"
+          onClick={() => void fetchEntries(nextPage)}
+          disabled={loading}
+        >
+          {loading ? 'Carregando...' : 'Carregar mais antigas'}
+        </button>
+      )}
+    </section>
+  )
+}
+
+export default AuditLogPanel
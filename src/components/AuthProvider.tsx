@@ -0,0 +1,23 @@
+import { useMemo, useSyncExternalStore, type PropsWithChildren } from 'react'
+import { AuthContext } from '../hooks/useAuth'
+import { AUTH_CHANGE_EVENT, authApi } from '../services/api'
+import { hasPermission, type Permission } from '../utils/permissions'
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener(AUTH_CHANGE_EVENT, onChange)
+  return () => window.removeEventListener(AUTH_CHANGE_EVENT, onChange)
+}
+
+const AuthProvider = ({ children }: PropsWithChildren) => {
+  const token = useSyncExternalStore(subscribe, authApi.getStoredToken, () => null)
+
+  const value = useMemo(() => {
+    const user = token ? authApi.getCurrentUser() : null
+    const role = user?.role ?? null
+    return { user, role, can: (permission: Permission) => hasPermission(role, permission) }
+  }, [token])
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
+
+export default AuthProvider
@@ -0,0 +1,68 @@
+import { BULK_ACTION_LABELS, type BulkItemStatus, type BulkRunState } from '../services/surveyBulk'
+
+type BulkActionProgressProps = {
+  state: BulkRunState
+  onRetry: () => void
+  onClose: () => void
+}
+
+const statusLabel: Record<BulkItemStatus, { label: string; className: string }> = {
+  pending: { label: 'Pendente', className: 'neutral' },
+  running: { label: 'Processando...', className: 'neutral' },
+  done: { label: 'Concluído', className: 'success' },
+  failed: { label: 'Falhou', className: 'danger' },
+  skipped: { label: 'Ignorado', className: 'neutral' },
+}
+
+const BulkActionProgress = ({ state, onRetry, onClose }: BulkActionProgressProps) => {
+  const countOf = (status: BulkItemStatus) => state.items.filter((item) => item.status === status).length
+  const applicable = state.items.length - countOf('skipped')
+  const finished = countOf('done') + countOf('failed')
+
+  return (
+    <div className="creation-progress">
+      <div className="creation-progress__header">
+        <div>
+          <p className="eyebrow">{BULK_ACTION_LABELS[state.action]} em lote</p>
+          <strong>
+            {countOf('done')} concluídas · {countOf('failed')} com erro · {countOf('skipped')} ignoradas
+          </strong>
+        </div>
+        <progress value={finished} max={Math.max(applicable, 1)} />
+      </div>
+      {state.status === 'running' ? (
+        <p className="muted-text">
+          Processando {finished} de {applicable}...
+        </p>
+      ) : (
+        <div className="creation-progress__actions">
+          {state.status === 'failed' && (
+            <button className="btn secondary small" type="button" onClick={onRetry}>
+              Tentar novamente as que falharam
+            </button>
+          )}
+          <button className="btn ghost small" type="button" onClick={onClose}>
+            Fechar resumo
+          </button>
+        </div>
+      )}
+      <ul className="options-list">
+        {state.items.map((item) => (
+          <li key={item.survey.id} className="option-row">
+            <span>
+              #{item.survey.id} {item.survey.titulo}
+            </span>
+            <div className="option-row__spacer" />
+            {item.error && <small className="error-text">{item.error}</small>}
+            {item.skipReason && <small className="muted-text">{item.skipReason}</small>}
+            <span className={`status-pill ${statusLabel[item.status].className}`}>
+              {statusLabel[item.status].label}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default BulkActionProgress
@@ -0,0 +1,74 @@
+import type { CreationStepStatus, SurveyCreationState } from '../services/surveyCreation'
+
+type CreationProgressProps = {
+  state: SurveyCreationState
+  onRetry: () => void
+  /** Omitido quando o usuário não pode remover pesquisas. */
+  onRollback?: () => void
+}
+
+const statusLabel: Record<CreationStepStatus, { label: string; className: string }> = {
+  pending: { label: 'Pendente', className: 'neutral' },
+  running: { label: 'Criando...', className: 'neutral' },
+  done: { label: 'Criado', className: 'success' },
+  failed: { label: 'Falhou', className: 'danger' },
+  rolledBack: { label: 'Desfeito', className: 'neutral' },
+}
+
+const CreationProgress = ({ state, onRetry, onRollback }: CreationProgressProps) => {
+  const doneCount = state.steps.filter((step) => step.status === 'done').length
+  const busy = state.status === 'running' || state.status === 'rollingBack'
+  const hasCreatedEntities = state.steps.some((step) => step.status === 'done')
+  // Falha no meio do desfazer: só faz sentido continuar desfazendo.
+  const rollbackStarted = state.steps.some((step) => step.status === 'rolledBack')
+
+  return (
+    <div className="creation-progress">
+      <div className="creation-progress__header">
+        <div>
+          <p className="eyebrow">Progresso</p>
+          <strong>
+            {doneCount} de {state.steps.length} etapas concluídas
+          </strong>
+        </div>
+        <progress value={doneCount} max={Math.max(state.steps.length, 1)} />
+      </div>
+      {state.status === 'failed' && (
+        <div className="creation-progress__actions">
+          <p className="error-text">{state.error}</p>
+          {!rollbackStarted && (
+            <button className="btn secondary small" type="button" onClick={onRetry}>
+              Tentar novamente a partir da falha
+            </button>
+          )}
+          {hasCreatedEntities && onRollback && (
+            <button className="btn danger small" type="button" onClick={onRollback}>
+              {rollbackStarted ? 'Tentar desfazer novamente' : 'Desfazer criação'}
+            </button>
+          )}
+        </div>
+      )}
+      {state.status === 'rolledBack' && (
+        <p className="muted-text">
+          Criação desfeita. A pesquisa parcial foi removida e só aparece entre as removidas; ajuste o rascunho e
+          salve novamente.
+        </p>
+      )}
+      {busy && <p className="muted-text">{state.status === 'rollingBack' ? 'Desfazendo...' : 'Criando...'}</p>}
+      <ul className="options-list">
+        {state.steps.map((step) => (
+          <li key={step.key} className={`option-row${step.kind === 'option' ? ' nested' : ''}`}>
+            <span>{step.label}</span>
+            <div className="option-row__spacer" />
+            {step.error && <small className="error-text">{step.error}</small>}
+            <span className={`status-pill ${statusLabel[step.status].className}`}>
+              {statusLabel[step.status].label}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default CreationProgress
@@ -0,0 +1,76 @@
+import {
+  DATE_RANGE_PRESETS,
+  formatDateRangeLabel,
+  resolveDateRange,
+  toDateInputValue,
+  type DateRangePreset,
+  type DateRangeSelection,
+} from '../utils/dateRange'
+
+type DateRangePickerProps = {
+  value: DateRangeSelection
+  onChange: (value: DateRangeSelection) => void
+  disabled?: boolean
+}
+
+const DateRangePicker = ({ value, onChange, disabled }: DateRangePickerProps) => {
+  const resolved = resolveDateRange(value)
+
+  const handlePresetChange = (preset: DateRangePreset) => {
+    if (preset === 'custom') {
+      onChange({
+        preset,
+        from: value.from ?? resolved.from.slice(0, 10),
+        to: value.to ?? resolved.to.slice(0, 10),
+      })
+      return
+    }
+    onChange({ preset })
+  }
+
+  return (
+    <div className="filter-group date-range-picker">
+      <label>
+        <span>Período</span>
+        <select
+          value={value.preset}
+          onChange={(event) => handlePresetChange(event.target.value as DateRangePreset)}
+          disabled={disabled}
+        >
+          {DATE_RANGE_PRESETS.map((preset) => (
+            <option key={preset.value} value={preset.value}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {value.preset === 'custom' && (
+        <>
+          <label>
+            <span>De</span>
+            <input
+              type="date"
+              value={value.from ?? ''}
+              max={value.to ?? toDateInputValue(new Date())}
+              onChange={(event) => onChange({ ...value, from: event.target.value || undefined })}
+              disabled={disabled}
+            />
+          </label>
+          <label>
+            <span>Até</span>
+            <input
+              type="date"
+              value={value.to ?? ''}
+              min={value.from}
+              onChange={(event) => onChange({ ...value, to: event.target.value || undefined })}
+              disabled={disabled}
+            />
+          </label>
+        </>
+      )}
+      <small className="muted-text">{formatDateRangeLabel(resolved)}</small>
+    </div>
+  )
+}
+
+export default DateRangePicker
@@ -0,0 +1,37 @@
+import { Link } from 'react-router-dom'
+import { useAuth } from '../hooks/useAuth'
+import { ROLE_LABELS } from '../utils/permissions'
+
+type ForbiddenStateProps = {
+  message?: string
+  backTo?: string
+  backLabel?: string
+}
+
+/** Acesso negado exibido no lugar do conteúdo, sem encerrar a sessão. */
+const ForbiddenState = ({
+  message = 'Você não tem permissão para acessar este conteúdo.',
+  backTo = '/surveys',
+  backLabel = 'Ir para pesquisas',
+}: ForbiddenStateProps) => {
+  const { role } = useAuth()
+
+  return (
+    <section className="panel forbidden-state">
+      <p className="eyebrow">Acesso restrito</p>
+      <h2>Permissão insuficiente</h2>
+      <p className="muted-text">{message}</p>
+      {role && (
+        <p className="muted-text">
+          Você está conectado como <strong>{ROLE_LABELS[role]}</strong>. Peça a um administrador para ampliar seu
+          acesso.
+        </p>
+      )}
+      <Link to={backTo} className="btn secondary small">
+        {backLabel}
+      </Link>
+    </section>
+  )
+}
+
+export default ForbiddenState
@@ -1,4 +1,5 @@
 import type { PropsWithChildren } from 'react'
+import SessionExpiryBanner from './SessionExpiryBanner'
 import Sidebar from './Sidebar'
 import TopBar from './TopBar'
 
@@ -13,6 +14,7 @@ const Layout = ({ children, title, subtitle }: LayoutProps) => {
       <Sidebar />
       <div className="app-shell__main">
         <TopBar title={title} subtitle={subtitle} />
+        <SessionExpiryBanner />
         <main className="app-content">{children}</main>
       </div>
     </div>
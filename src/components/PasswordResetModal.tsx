@@ -0,0 +1,77 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import type { User } from '../types/api'
+import { MIN_PASSWORD_LENGTH, validateNewPassword } from '../utils/password'
+
+type PasswordResetModalProps = {
+  user: User | null
+  saving?: boolean
+  error?: string
+  onConfirm: (password: string) => void
+  onCancel: () => void
+}
+
+const PasswordResetModal = ({ user, saving, error, onConfirm, onCancel }: PasswordResetModalProps) => {
+  const [password, setPassword] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [validationError, setValidationError] = useState<string>()
+
+  if (!user) return null
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const passwordError = validateNewPassword(password, confirmation)
+    setValidationError(passwordError)
+    if (!passwordError) onConfirm(password)
+  }
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-modal="true">
+      <form className="modal confirm" onSubmit={handleSubmit}>
+        <div className="modal__header">
+          <div>
+            <p className="eyebrow">Redefinir senha</p>
+            <h2>{user.nome || user.username}</h2>
+          </div>
+        </div>
+        <div className="modal__content">
+          <p className="muted-text">
+            A nova senha vale a partir do próximo login. Mínimo de {MIN_PASSWORD_LENGTH} caracteres.
+          </p>
+          <label className="form-field">
+            <span>Nova senha</span>
+            <input
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              autoComplete="new-password"
+              required
+              autoFocus
+            />
+          </label>
+          <label className="form-field">
+            <span>Confirmar senha</span>
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(event) => setConfirmation(event.target.value)}
+              autoComplete="new-password"
+              required
+            />
+          </label>
+          {(validationError || error) && <p className="error-text">{validationError ?? error}</p>}
+        </div>
+        <div className="modal__footer">
+          <button className="btn ghost" type="button" onClick={onCancel} disabled={saving}>
+            Cancelar
+          </button>
+          <button className="btn primary" type="submit" disabled={saving}>
+            {saving ? 'Salvando...' : 'Redefinir senha'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default PasswordResetModal
@@ -0,0 +1,161 @@
+import type { Dispatch } from 'react'
+import type { QuestionType, SurveyDraftQuestion } from '../types/api'
+import { QUESTION_TYPES, hasEditableOptions } from '../utils/questionTypes'
+import type { SurveyBuilderAction } from '../utils/surveyBuilder'
+
+type QuestionsBuilderProps = {
+  questions: SurveyDraftQuestion[]
+  dispatch: Dispatch<SurveyBuilderAction>
+  notice?: string
+  disabled?: boolean
+}
+
+// Itens que já existem no servidor não são removidos pelo editor (as opções podem
+// ser desativadas) e só trocam entre tipos que mantêm as mesmas opções.
+const typeChoices = (question: SurveyDraftQuestion) => {
+  if (question.sourceId === undefined) return QUESTION_TYPES
+  return hasEditableOptions(question.tipo)
+    ? QUESTION_TYPES.filter((type) => hasEditableOptions(type.value))
+    : QUESTION_TYPES.filter((type) => type.value === question.tipo)
+}
+
+const QuestionsBuilder = ({ questions, dispatch, notice, disabled }: QuestionsBuilderProps) => (
+  <div className="questions-builder">
+    {notice && <p className="error-text">{notice}</p>}
+    {questions.map((question, questionIndex) => (
+      <article key={question.id} className="question-card builder">
+        <div className="card-header">
+          <div>
+            <p className="eyebrow">Pergunta #{questionIndex + 1}</p>
+            <input
+              className="input-unstyled"
+              value={question.texto}
+              onChange={(event) =>
+                dispatch({ type: 'updateQuestion', questionId: question.id, changes: { texto: event.target.value } })
+              }
+              placeholder="Digite o texto da pergunta"
+              required
+              disabled={disabled}
+            />
+          </div>
+          {questions.length > 1 && question.sourceId === undefined && (
+            <button
+              type="button"
+              className="btn ghost small"
+              onClick={() => dispatch({ type: 'removeQuestion', questionId: question.id })}
+              disabled={disabled}
+            >
+              Remover
+            </button>
+          )}
+        </div>
+        <label className="form-field">
+          <span>Ordem</span>
+          <input
+            type="number"
+            min={1}
+            value={question.ordem}
+            onChange={(event) =>
+              dispatch({
+                type: 'updateQuestion',
+                questionId: question.id,
+                changes: { ordem: Number(event.target.value) || questionIndex + 1 },
+              })
+            }
+            disabled={disabled}
+          />
+        </label>
+
+        <label className="form-field">
+          <span>Tipo</span>
+          <select
+            value={question.tipo}
+            onChange={(event) =>
+              dispatch({
+                type: 'changeQuestionType',
+                questionId: question.id,
+                tipo: event.target.value as QuestionType,
+              })
+            }
+            disabled={disabled || typeChoices(question).length === 1}
+          >
+            {typeChoices(question).map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+          <small className="muted-text">
+            {QUESTION_TYPES.find((type) => type.value === question.tipo)?.description}
+          </small>
+        </label>
+
+        {hasEditableOptions(question.tipo) ? (
+          <div className="options-builder">
+            <p className="eyebrow">Opções</p>
+            {question.options.map((option) => (
+              <div key={option.id} className="option-builder-row">
+                <input
+                  value={option.texto}
+                  onChange={(event) =>
+                    dispatch({
+                      type: 'updateOption',
+                      questionId: question.id,
+                      optionId: option.id,
+                      changes: { texto: event.target.value },
+                    })
+                  }
+                  placeholder="Texto da opção"
+                  disabled={disabled}
+                />
+                <label className="form-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={option.ativo}
+                    onChange={(event) =>
+                      dispatch({
+                        type: 'updateOption',
+                        questionId: question.id,
+                        optionId: option.id,
+                        changes: { ativo: event.target.checked },
+                      })
+                    }
+                    disabled={disabled}
+                  />
+                  <span>Ativa</span>
+                </label>
+                {question.options.length > 1 && option.sourceId === undefined && (
+                  <button
+                    type="button"
+                    className="btn ghost small"
+                    onClick={() => dispatch({ type: 'removeOption', questionId: question.id, optionId: option.id })}
+                    disabled={disabled}
+                  >
+                    Remover
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              type="button"
+              className="btn secondary small"
+              onClick={() => dispatch({ type: 'addOption', questionId: question.id })}
+              disabled={disabled}
+            >
+              Adicionar opção
+            </button>
+          </div>
+        ) : question.tipo === 'TEXT' ? (
+          <p className="muted-text">Resposta aberta: esta pergunta não tem opções.</p>
+        ) : (
+          <div className="options-builder">
+            <p className="eyebrow">Opções geradas</p>
+            <p className="muted-text">{question.options.map((option) => option.texto).join(' • ')}</p>
+          </div>
+        )}
+      </article>
+    ))}
+  </div>
+)
+
+export default QuestionsBuilder
@@ -0,0 +1,58 @@
+import type { SurveyDraft } from '../types/api'
+import { formatDateTime } from '../utils/format'
+
+type SavedDraftsPanelProps = {
+  drafts: SurveyDraft[]
+  /** Quando o formulário ainda está vazio, o painel pergunta se o usuário quer retomar um rascunho. */
+  prompt: boolean
+  onOpen: (draft: SurveyDraft) => void
+  onDiscard: (draft: SurveyDraft) => void
+}
+
+const SavedDraftsPanel = ({ drafts, prompt, onOpen, onDiscard }: SavedDraftsPanelProps) => {
+  if (drafts.length === 0) return null
+
+  return (
+    <section className="panel">
+      <div className="panel-header">
+        <div>
+          <p className="eyebrow">Rascunhos</p>
+          <h2>{prompt ? 'Continuar de onde parou?' : 'Rascunhos salvos'}</h2>
+          <p className="section-subtitle">
+            {prompt
+              ? 'Você tem rascunhos que ainda não foram publicados. Abra um deles ou comece uma nova ' +
+                'pesquisa abaixo.'
+              : 'Salvos automaticamente neste navegador enquanto você edita.'}
+          </p>
+        </div>
+      </div>
+      <ul className="simple-list">
+        {drafts.map((draft, index) => (
+          <li key={draft.id}>
+            <span>
+              <strong>{draft.titulo.trim() || 'Sem título'}</strong>
+              <span className="muted-text">
+                {` • ${draft.questions.length} ${draft.questions.length === 1 ? 'pergunta' : 'perguntas'}`}
+                {` • salvo em ${formatDateTime(draft.updatedAt)}`}
+              </span>
+            </span>
+            <span className="hero-actions">
+              <button className="btn ghost small" type="button" onClick={() => onDiscard(draft)}>
+                Descartar
+              </button>
+              <button
+                className={`btn small ${prompt && index === 0 ? 'primary' : 'secondary'}`}
+                type="button"
+                onClick={() => onOpen(draft)}
+              >
+                {prompt && index === 0 ? 'Restaurar' : 'Abrir'}
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+export default SavedDraftsPanel
@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import MetricCard from './MetricCard'
+import { parseApiError, voteApi } from '../services/api'
+import type { QuestionType, SurveyDashboardQuestionStat, Vote } from '../types/api'
+import { toDateInputValue } from '../utils/dateRange'
+import { buildNpsTrend, detectScale, summarizeScale, type ScaleSummary } from '../utils/scaleAnalytics'
+
+type ScaleAnalyticsPanelProps = {
+  surveyId: number
+  questions: SurveyDashboardQuestionStat[]
+  questionTypes: Map<number, QuestionType>
+  timeLabels: string[]
+  from: string
+  to: string
+}
+
+const NPS_COLORS = { detractor: '#df5f51', passive: '#f3c567', promoter: '#0f8f53' }
+
+const formatScore = (value: number | null, fractionDigits = 1) =>
+  value === null
+    ? '—'
+    : value.toLocaleString('pt-BR', { minimumFractionDigits: 0, maximumFractionDigits: fractionDigits })
+
+const formatDay = (day: string) => {
+  const [year, month, date] = day.split('-')
+  return year && month && date ? `${date}/${month}` : day
+}
+
+const scoreColor = (summary: ScaleSummary, score: number) => {
+  if (summary.kind === 'rating') return '#0f8f53'
+  if (score >= 9) return NPS_COLORS.promoter
+  if (score >= 7) return NPS_COLORS.passive
+  return NPS_COLORS.detractor
+}
+
+type ScaleQuestion = { question: SurveyDashboardQuestionStat; summary: ScaleSummary }
+
+const ScaleAnalyticsPanel = ({
+  surveyId,
+  questions,
+  questionTypes,
+  timeLabels,
+  from,
+  to,
+}: ScaleAnalyticsPanelProps) => {
+  // Guardados junto das perguntas que os originaram, para não exibir a tendência de outra seleção.
+  const [trendVotes, setTrendVotes] = useState<{
+    questionIds: string
+    votesByQuestion: Record<number, Vote[]>
+    truncated: boolean
+  }>()
+  const [trendError, setTrendError] = useState<string>()
+  const [trendLoading, setTrendLoading] = useState(false)
+
+  const scaleQuestions = useMemo(
+    () =>
+      questions
+        .map((question) => {
+          const kind = detectScale(question.options ?? [], questionTypes.get(question.questionId))
+          return kind ? { question, summary: summarizeScale(kind, question.options ?? []) } : null
+        })
+        .filter((item): item is ScaleQuestion => item !== null),
+    [questions, questionTypes],
+  )
+
+  const npsQuestionIds = scaleQuestions
+    .filter((item) => item.summary.kind === 'nps')
+    .map((item) => item.question.questionId)
+    .join(',')
+
+  useEffect(() => {
+    if (!npsQuestionIds) return
+    let cancelled = false
+    const loadVotes = async () => {
+      setTrendLoading(true)
+      setTrendError(undefined)
+      try {
+        const fromDay = from.slice(0, 10)
+        const toDay = to.slice(0, 10)
+        const entries = await Promise.all(
+          npsQuestionIds.split(',').map(async (id) => {
+            const questionId = Number(id)
+            const { votes, truncated } = await voteApi.listAll({ surveyId, questionId, from, to })
+            const inRange = votes.filter((vote) => {
+              if (!vote.createdAt) return false
+              const day = toDateInputValue(new Date(vote.createdAt))
+              return day >= fromDay && day <= toDay
+            })
+            return { questionId, votes: inRange, truncated }
+          }),
+        )
+        if (!cancelled) {
+          setTrendVotes({
+            questionIds: npsQuestionIds,
+            votesByQuestion: Object.fromEntries(entries.map((entry) => [entry.questionId, entry.votes])),
+            truncated: entries.some((entry) => entry.truncated),
+          })
+        }
+      } catch (err) {
+        if (!cancelled) setTrendError(parseApiError(err))
+      } finally {
+        if (!cancelled) setTrendLoading(false)
+      }
+    }
+    void loadVotes()
+    return () => {
+      cancelled = true
+    }
+  }, [surveyId, npsQuestionIds, from, to])
+
+  const currentTrend = npsQuestionIds && trendVotes?.questionIds === npsQuestionIds ? trendVotes : undefined
+  const votesByQuestion: Record<number, Vote[]> = currentTrend?.votesByQuestion ?? {}
+
+  const dailyLabels = timeLabels.every((label) => /^\d{4}-\d{2}-\d{2}/.test(label)) ? timeLabels : []
+
+  if (scaleQuestions.length === 0) return null
+
+  return (
+    <section className="panel">
+      <div className="panel-header">
+        <div>
+          <p className="eyebrow">Escalas</p>
+          <h2>NPS e avaliações</h2>
+          <p className="section-subtitle">
+            Perguntas com opções numéricas de 0 a 10 (NPS) ou de 1 a 5 (avaliação).
+          </p>
+        </div>
+      </div>
+      <div className="questions-list">
+        {scaleQuestions.map(({ question, summary }) => {
+          const trend =
+            summary.kind === 'nps' ? buildNpsTrend(votesByQuestion[question.questionId] ?? [], dailyLabels) : []
+          const npsShare = (count: number) =>
+            summary.nps.total > 0 ? `${((count / summary.nps.total) * 100).toFixed(1)}%` : '—'
+          return (
+            <article key={question.questionId} className="question-card">
+              <div className="card-header">
+                <div>
+                  <p className="eyebrow">{summary.kind === 'nps' ? 'NPS (0–10)' : 'Avaliação (1–5)'}</p>
+                  <h3>{question.texto}</h3>
+                </div>
+              </div>
+              <div className="metrics-grid">
+                {summary.kind === 'nps' && (
+                  <MetricCard
+                    title="NPS"
+                    value={summary.nps.score === null ? '—' : summary.nps.score}
+                    delta={`${summary.nps.total.toLocaleString('pt-BR')} notas`}
+                  />
+                )}
+                <MetricCard title="Média" value={formatScore(summary.mean)} />
+                <MetricCard title="Mediana" value={formatScore(summary.median)} />
+                <MetricCard title="Respostas" value={summary.total.toLocaleString('pt-BR')} />
+                {summary.kind === 'nps' && (
+                  <>
+                    <MetricCard
+                      title="Promotores (9–10)"
+                      value={summary.nps.promoters}
+                      delta={npsShare(summary.nps.promoters)}
+                    />
+                    <MetricCard
+                      title="Neutros (7–8)"
+                      value={summary.nps.passives}
+                      delta={npsShare(summary.nps.passives)}
+                    />
+                    <MetricCard
+                      title="Detratores (0–6)"
+                      value={summary.nps.detractors}
+                      delta={npsShare(summary.nps.detractors)}
+                    />
+                  </>
+                )}
+              </div>
+              <div className="chart-grid">
+                <article className="chart-card">
+                  <p className="chart-card__title">Distribuição das notas</p>
+                  <div className="chart-container chart-container--small">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={summary.distribution} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="score" />
+                        <YAxis allowDecimals={false} />
+                        <Tooltip
+                          formatter={(value: number, _name, item) => {
+                            const { percentage } = item.payload as ScaleSummary['distribution'][number]
+                            return [`${value.toLocaleString('pt-BR')} (${percentage.toFixed(1)}%)`, 'Respostas']
+                          }}
+                          labelFormatter={(label) => `Nota ${label}`}
+                        />
+                        <Bar dataKey="responses" radius={[6, 6, 0, 0]}>
+                          {summary.distribution.map((item) => (
+                            <Cell key={item.score} fill={scoreColor(summary, item.score)} />
+                          ))}
+                        </Bar>
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </article>
+                {summary.kind === 'nps' && (
+                  <article className="chart-card">
+                    <p className="chart-card__title">Evolução do NPS</p>
+                    <p className="chart-card__subtitle">NPS do dia e acumulado no período</p>
+                    {trendLoading && <p className="muted-text">Carregando votos...</p>}
+                    {trendError && <p className="error-text">{trendError}</p>}
+                    {currentTrend?.truncated && (
+                      <p className="error-text">
+                        Há mais votos do que o limite carregado: a tendência está incompleta.
+                      </p>
+                    )}
+                    {!trendLoading && !trendError && trend.every((point) => point.responses === 0) ? (
+                      <p className="chart-empty">Sem notas no período</p>
+                    ) : (
+                      <div className="chart-container chart-container--small">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={trend} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="label" tickFormatter={formatDay} />
+                            <YAxis domain={[-100, 100]} />
+                            <Tooltip labelFormatter={(label) => formatDay(String(label))} />
+                            <Legend />
+                            <Line
+                              type="monotone"
+                              dataKey="nps"
+                              name="NPS do dia"
+                              stroke="#f19953"
+                              connectNulls
+                              dot={false}
+                            />
+                            <Line
+                              type="monotone"
+                              dataKey="cumulativeNps"
+                              name="NPS acumulado"
+                              stroke="#0f8f53"
+                              strokeWidth={2}
+                              connectNulls
+                              dot={false}
+                            />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                    )}
+                  </article>
+                )}
+              </div>
+            </article>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
+
+export default ScaleAnalyticsPanel
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react'
+import { Link, useLocation } from 'react-router-dom'
+import { useAuth } from '../hooks/useAuth'
+import { authApi, buildLoginPath, parseApiError } from '../services/api'
+
+/** Quanto antes do vencimento do token o aviso aparece. */
+const WARNING_WINDOW_MS = 2 * 60 * 1000
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+const SessionExpiryBanner = () => {
+  const { user } = useAuth()
+  const location = useLocation()
+  const [now, setNow] = useState(() => Date.now())
+  const [refreshing, setRefreshing] = useState(false)
+  const [error, setError] = useState<string>()
+  const expiresAt = user?.expiresAt
+
+  useEffect(() => {
+    if (!expiresAt) return
+    const timer = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(timer)
+  }, [expiresAt])
+
+  if (!expiresAt || expiresAt - now > WARNING_WINDOW_MS) return null
+
+  const remaining = expiresAt - now
+  const canRefresh = authApi.canRefresh()
+
+  const handleRefresh = async () => {
+    setRefreshing(true)
+    setError(undefined)
+    try {
+      await authApi.refresh()
+    } catch (err) {
+      setError(parseApiError(err))
+    } finally {
+      setRefreshing(false)
+    }
+  }
+
+  return (
+    <div className={`session-banner${remaining <= 0 ? ' expired' : ''}`} role="status">
+      <span>
+        {remaining > 0
+          ? `Sua sessão expira em ${formatRemaining(remaining)}.`
+          : canRefresh
+            ? 'Sua sessão expirou e será renovada na próxima ação.'
+            : 'Sua sessão expirou. Entre novamente para continuar de onde parou.'}
+      </span>
+      {error && <span className="error-text">{error}</span>}
+      {canRefresh ? (
+        <button
+          className="btn secondary small"
+          type="button"
+          onClick={() => void handleRefresh()}
+          disabled={refreshing}
+        >
+          {refreshing ? 'Renovando...' : 'Continuar conectado'}
+        </button>
+      ) : (
+        <Link to={buildLoginPath(`${location.pathname}${location.search}`)} className="btn secondary small">
+          Entrar novamente
+        </Link>
+      )}
+    </div>
+  )
+}
+
+export default SessionExpiryBanner
@@ -1,32 +1,41 @@
 import { NavLink } from 'react-router-dom'
+import { useAuth } from '../hooks/useAuth'
+import { ROLE_LABELS, type Permission } from '../utils/permissions'
 
-const navigation = [
-  { to: '/dashboard', label: 'Dashboard', icon: '📊', end: true },
+const navigation: Array<{ to: string; label: string; icon: string; end: boolean; permission?: Permission }> = [
+  { to: '/dashboard', label: 'Dashboard', icon: '📊', end: true, permission: 'metrics:view' },
   { to: '/surveys', label: 'Pesquisas', icon: '🗂️', end: false },
+  { to: '/templates', label: 'Templates', icon: '🧩', end: false },
+  { to: '/activity', label: 'Atividade', icon: '🕑', end: false, permission: 'audit:view' },
+  { to: '/users', label: 'Usuários', icon: '👥', end: false, permission: 'user:manage' },
 ]
 
 const Sidebar = () => {
+  const { user, can } = useAuth()
+
   return (
     <aside className="sidebar">
       <div className="sidebar__brand">
         <div className="sidebar__logo">SV</div>
         <div>
           <p className="sidebar__title">Survey Platform</p>
-          <small>Admin</small>
+          <small>{user ? `${user.username ?? 'Usuário'} • ${ROLE_LABELS[user.role]}` : 'Admin'}</small>
         </div>
       </div>
       <nav className="sidebar__nav">
-        {navigation.map((item) => (
-          <NavLink
-            key={item.to}
-            to={item.to}
-            end={item.end}
-            className={({ isActive }) => `sidebar__link${isActive ? ' active' : ''}`}
-          >
-            <span className="icon">{item.icon}</span>
-            {item.label}
-          </NavLink>
-        ))}
+        {navigation
+          .filter((item) => !item.permission || can(item.permission))
+          .map((item) => (
+            <NavLink
+              key={item.to}
+              to={item.to}
+              end={item.end}
+              className={({ isActive }) => `sidebar__link${isActive ? ' active' : ''}`}
+            >
+              <span className="icon">{item.icon}</span>
+              {item.label}
+            </NavLink>
+          ))}
       </nav>
     </aside>
   )
@@ -0,0 +1,59 @@
+import type { SurveyDraftContent } from '../types/api'
+import type { SurveyInfoChanges } from '../utils/surveyBuilder'
+
+type SurveyInfoFieldsProps = {
+  draft: SurveyDraftContent
+  onChange: (changes: SurveyInfoChanges) => void
+  activeLabel?: string
+  disabled?: boolean
+}
+
+const SurveyInfoFields = ({
+  draft,
+  onChange,
+  activeLabel = 'Ativa ao publicar',
+  disabled,
+}: SurveyInfoFieldsProps) => (
+  <div className="form-vertical">
+    <label className="form-field">
+      <span>Título</span>
+      <input
+        value={draft.titulo}
+        onChange={(event) => onChange({ titulo: event.target.value })}
+        required
+        placeholder="Pesquisa de Satisfação"
+        disabled={disabled}
+      />
+    </label>
+    <label className="form-field">
+      <span>Descrição</span>
+      <textarea
+        value={draft.descricao}
+        onChange={(event) => onChange({ descricao: event.target.value })}
+        placeholder="Contexto ou objetivo da pesquisa"
+        maxLength={1000}
+        disabled={disabled}
+      />
+    </label>
+    <label className="form-field">
+      <span>Data de validade</span>
+      <input
+        type="datetime-local"
+        value={draft.dataValidade}
+        onChange={(event) => onChange({ dataValidade: event.target.value })}
+        disabled={disabled}
+      />
+    </label>
+    <label className="form-checkbox">
+      <input
+        type="checkbox"
+        checked={draft.ativo}
+        onChange={(event) => onChange({ ativo: event.target.checked })}
+        disabled={disabled}
+      />
+      <span>{activeLabel}</span>
+    </label>
+  </div>
+)
+
+export default SurveyInfoFields
@@ -0,0 +1,177 @@
+import { useMemo, useState } from 'react'
+import type { SurveyStructure } from '../types/api'
+import { getQuestionType } from '../utils/questionTypes'
+import { sortByOrdem } from '../utils/reorder'
+import { resolveFirstQuestion, resolveNextQuestion, type FlowAnswer } from '../utils/surveyFlow'
+
+type SurveyPreviewProps = {
+  open: boolean
+  survey: SurveyStructure
+  onClose: () => void
+}
+
+const SurveyPreview = ({ open, survey, onClose }: SurveyPreviewProps) => {
+  const rules = useMemo(() => survey.rules ?? [], [survey.rules])
+  const firstQuestionId = useMemo(() => resolveFirstQuestion(survey.questions, rules), [survey.questions, rules])
+  const [history, setHistory] = useState<number[]>([])
+  const [currentId, setCurrentId] = useState<number | null>(firstQuestionId)
+  const [answers, setAnswers] = useState<Record<number, FlowAnswer>>({})
+  const [started, setStarted] = useState(false)
+
+  if (!open) return null
+
+  const question = survey.questions.find((item) => item.id === currentId)
+  const tipo = question ? getQuestionType(question) : undefined
+  const options = sortByOrdem(question?.options ?? []).filter((option) => option.ativo)
+  const answer = question ? answers[question.id] : undefined
+  const isFinished = started && currentId === null
+  const canAdvance = tipo === 'TEXT' || (answer?.optionIds.length ?? 0) > 0
+
+  const restart = () => {
+    setHistory([])
+    setAnswers({})
+    setCurrentId(firstQuestionId)
+    setStarted(false)
+  }
+
+  const selectOption = (optionId: number) => {
+    if (!question) return
+    setAnswers((prev) => {
+      const selected = prev[question.id]?.optionIds ?? []
+      const optionIds =
+        tipo === 'MULTIPLE_CHOICE'
+          ? selected.includes(optionId)
+            ? selected.filter((id) => id !== optionId)
+            : [...selected, optionId]
+          : [optionId]
+      return { ...prev, [question.id]: { optionIds } }
+    })
+  }
+
+  const goNext = () => {
+    if (!question) return
+    setHistory((prev) => [...prev, question.id])
+    setCurrentId(resolveNextQuestion(survey.questions, rules, question.id, answers))
+  }
+
+  const goBack = () => {
+    const previous = history[history.length - 1]
+    if (previous === undefined) return
+    setHistory((prev) => prev.slice(0, -1))
+    setCurrentId(previous)
+  }
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-modal="true">
+      <div className="modal survey-preview">
+        <div className="modal__header">
+          <div>
+            <p className="eyebrow">Pré-visualização • nenhum voto é registrado</p>
+            <h2>{survey.titulo}</h2>
+          </div>
+          <button className="btn ghost" type="button" onClick={onClose}>
+            Fechar
+          </button>
+        </div>
+        <div className="modal__content">
+          {!survey.ativo && (
+            <p className="muted-text">
+              Esta pesquisa está inativa: respondentes ainda não conseguem acessá-la pelo link público.
+            </p>
+          )}
+
+          {!started && (
+            <div className="survey-preview__screen">
+              {survey.descricao && <p>{survey.descricao}</p>}
+              {firstQuestionId === null ? (
+                <p className="muted-text">Nenhuma pergunta para exibir.</p>
+              ) : (
+                <button className="btn primary" type="button" onClick={() => setStarted(true)}>
+                  Começar
+                </button>
+              )}
+            </div>
+          )}
+
+          {started && question && (
+            <div className="survey-preview__screen">
+              <p className="eyebrow">Pergunta {history.length + 1}</p>
+              <h3>{question.texto}</h3>
+              {tipo === 'TEXT' && (
+                <textarea
+                  value={answer?.text ?? ''}
+                  onChange={(event) =>
+                    setAnswers((prev) => ({ ...prev, [question.id]: { optionIds: [], text: event.target.value } }))
+                  }
+                  placeholder="Digite sua resposta"
+                />
+              )}
+              {(tipo === 'RATING' || tipo === 'NPS') && (
+                <div className="survey-preview__scale">
+                  {options.map((option) => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      className={`btn small ${answer?.optionIds.includes(option.id) ? 'primary' : 'ghost'}`}
+                      onClick={() => selectOption(option.id)}
+                    >
+                      {option.texto}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {tipo !== 'TEXT' && tipo !== 'RATING' && tipo !== 'NPS' && (
+                <ul className="options-list">
+                  {options.map((option) => (
+                    <li key={option.id} className="option-row">
+                      <label className="form-checkbox" style={{ margin: 0 }}>
+                        <input
+                          type={tipo === 'MULTIPLE_CHOICE' ? 'checkbox' : 'radio'}
+                          name={`preview-${question.id}`}
+                          checked={answer?.optionIds.includes(option.id) ?? false}
+                          onChange={() => selectOption(option.id)}
+                        />
+                        <span>{option.texto}</span>
+                      </label>
+                    </li>
+                  ))}
+                  {options.length === 0 && <li className="option-row muted">Sem opções ativas.</li>}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {isFinished && (
+            <div className="survey-preview__screen">
+              <h3>Obrigado por responder!</h3>
+              <p className="muted-text">
+                Caminho percorrido:{' '}
+                {history
+                  .map((id) => survey.questions.find((item) => item.id === id))
+                  .map((item) => (item ? `#${item.ordem}` : '?'))
+                  .join(' → ')}
+              </p>
+            </div>
+          )}
+        </div>
+        <div className="modal__footer">
+          <button className="btn ghost" type="button" onClick={restart} disabled={!started}>
+            Reiniciar
+          </button>
+          {started && !isFinished && (
+            <>
+              <button className="btn ghost" type="button" onClick={goBack} disabled={history.length === 0}>
+                Voltar
+              </button>
+              <button className="btn primary" type="button" onClick={goNext} disabled={!canAdvance}>
+                Próxima
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SurveyPreview
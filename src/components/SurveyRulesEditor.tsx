@@ -0,0 +1,272 @@
+import { useMemo, useState } from 'react'
+import type { FormEvent } from 'react'
+import { parseApiError, surveyApi } from '../services/api'
+import type { SurveyRule, SurveyRuleType, SurveyStructure } from '../types/api'
+import { sortByOrdem } from '../utils/reorder'
+import { analyzeSurveyFlow } from '../utils/surveyFlow'
+
+type SurveyRulesEditorProps = {
+  survey: SurveyStructure
+  onSaved: (rules: SurveyRule[]) => void
+  /** Recebe as regras ainda não salvas, para a pré-visualização refletir o rascunho. */
+  onDraftChange?: (rules: SurveyRule[]) => void
+  /** Exibe regras e fluxo sem permitir alterações. */
+  readOnly?: boolean
+}
+
+const END_TARGET = 'end'
+
+const emptyForm = { tipo: 'JUMP' as SurveyRuleType, sourceQuestionId: '', optionId: '', targetQuestionId: '' }
+
+const SurveyRulesEditor = ({ survey, onSaved, onDraftChange, readOnly = false }: SurveyRulesEditorProps) => {
+  const [rules, setRulesState] = useState<SurveyRule[]>(survey.rules ?? [])
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string>()
+  const [message, setMessage] = useState<string>()
+
+  const setRules = (next: SurveyRule[]) => {
+    setRulesState(next)
+    onDraftChange?.(next)
+  }
+
+  const questions = useMemo(() => sortByOrdem(survey.questions), [survey.questions])
+  const flow = useMemo(() => analyzeSurveyFlow(questions, rules), [questions, rules])
+  const hasErrors = flow.issues.some((issue) => issue.severity === 'error')
+  const isDirty = JSON.stringify(rules) !== JSON.stringify(survey.rules ?? [])
+
+  const sourceQuestions = questions.filter((question) => (question.options ?? []).some((option) => option.ativo))
+  const sourceQuestion = questions.find((question) => question.id === Number(form.sourceQuestionId))
+  const sourceOptions = (sourceQuestion?.options ?? []).filter((option) => option.ativo)
+
+  const describeQuestion = (questionId: number | null) => {
+    if (questionId === null) return 'Fim da pesquisa'
+    const question = questions.find((item) => item.id === questionId)
+    return question ? `#${question.ordem} ${question.texto}` : 'Pergunta removida'
+  }
+
+  const describeRule = (rule: SurveyRule) => {
+    const source = questions.find((question) => question.id === rule.sourceQuestionId)
+    const option = source?.options?.find((item) => item.id === rule.optionId)
+    const condition = `${source ? `#${source.ordem}` : '?'} = "${option?.texto ?? '?'}"`
+    return rule.tipo === 'JUMP'
+      ? `Se ${condition}, ir para ${describeQuestion(rule.targetQuestionId)}`
+      : `Exibir ${describeQuestion(rule.targetQuestionId)} somente se ${condition}`
+  }
+
+  const handleAddRule = (event: FormEvent) => {
+    event.preventDefault()
+    setMessage(undefined)
+    if (!form.sourceQuestionId || !form.optionId || !form.targetQuestionId) {
+      setError('Preencha a pergunta, a opção e o destino da regra.')
+      return
+    }
+    setError(undefined)
+    setRules([
+      ...rules,
+      {
+        tipo: form.tipo,
+        sourceQuestionId: Number(form.sourceQuestionId),
+        optionId: Number(form.optionId),
+        targetQuestionId: form.targetQuestionId === END_TARGET ? null : Number(form.targetQuestionId),
+      },
+    ])
+    setForm((prev) => ({ ...emptyForm, tipo: prev.tipo }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(undefined)
+    setMessage(undefined)
+    try {
+      const saved = await surveyApi.updateRules(survey.id, rules)
+      setRules(saved)
+      onSaved(saved)
+      setMessage('Regras salvas.')
+    } catch (err) {
+      setError(parseApiError(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <section className="panel">
+      <div className="panel-header">
+        <div>
+          <p className="eyebrow">Lógica</p>
+          <h2>Regras de ramificação</h2>
+          <p className="section-subtitle">
+            Saltos e condições de exibição entre perguntas. As regras são salvas junto com a estrutura da
+            pesquisa.
+          </p>
+        </div>
+        {!readOnly && (
+          <div className="hero-actions">
+            <button
+              className="btn ghost"
+              type="button"
+              onClick={() => setRules(survey.rules ?? [])}
+              disabled={!isDirty || saving}
+            >
+              Descartar alterações
+            </button>
+            <button
+              className="btn primary"
+              type="button"
+              onClick={() => void handleSave()}
+              disabled={!isDirty || hasErrors || saving}
+              title={hasErrors ? 'Corrija os erros antes de salvar.' : undefined}
+            >
+              {saving ? 'Salvando...' : 'Salvar regras'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!readOnly && (
+        <form className="filter-group" onSubmit={handleAddRule}>
+          <label>
+            <span>Tipo</span>
+            <select
+              value={form.tipo}
+              onChange={(event) =>
+                setForm((prev) => ({ ...prev, tipo: event.target.value as SurveyRuleType, targetQuestionId: '' }))
+              }
+            >
+              <option value="JUMP">Saltar para</option>
+              <option value="SHOW_IF">Exibir somente se</option>
+            </select>
+          </label>
+          <label>
+            <span>Quando a pergunta</span>
+            <select
+              value={form.sourceQuestionId}
+              onChange={(event) =>
+                setForm((prev) => ({ ...prev, sourceQuestionId: event.target.value, optionId: '' }))
+              }
+            >
+              <option value="">Selecione</option>
+              {sourceQuestions.map((question) => (
+                <option key={question.id} value={question.id}>
+                  #{question.ordem} {question.texto}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>For respondida com</span>
+            <select
+              value={form.optionId}
+              onChange={(event) => setForm((prev) => ({ ...prev, optionId: event.target.value }))}
+              disabled={!sourceQuestion}
+            >
+              <option value="">Selecione</option>
+              {sourceOptions.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.texto}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>{form.tipo === 'JUMP' ? 'Ir para' : 'Exibir a pergunta'}</span>
+            <select
+              value={form.targetQuestionId}
+              onChange={(event) => setForm((prev) => ({ ...prev, targetQuestionId: event.target.value }))}
+            >
+              <option value="">Selecione</option>
+              {form.tipo === 'JUMP' && <option value={END_TARGET}>Fim da pesquisa</option>}
+              {questions
+                .filter((question) => question.id !== Number(form.sourceQuestionId))
+                .map((question) => (
+                  <option key={question.id} value={question.id}>
+                    #{question.ordem} {question.texto}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <button className="btn secondary" type="submit">
+            Adicionar regra
+          </button>
+        </form>
+      )}
+      {error && <p className="error-text">{error}</p>}
+      {message && <p className="success-text">{message}</p>}
+
+      {rules.length === 0 ? (
+        <p className="muted-text">Nenhuma regra: as perguntas seguem a ordem definida.</p>
+      ) : (
+        <div className="table-wrapper compact">
+          <table className="simple-table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Regra</th>
+                {!readOnly && <th />}
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule, index) => (
+                <tr key={`${rule.tipo}-${rule.sourceQuestionId}-${rule.optionId}-${index}`}>
+                  <td>{index + 1}</td>
+                  <td>{describeRule(rule)}</td>
+                  {!readOnly && (
+                    <td className="table-actions">
+                      <button
+                        className="btn ghost small"
+                        type="button"
+                        onClick={() => setRules(rules.filter((_, ruleIndex) => ruleIndex !== index))}
+                      >
+                        Remover
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {flow.issues.length > 0 && (
+        <ul className="simple-list">
+          {flow.issues.map((issue) => (
+            <li key={issue.message} className={issue.severity === 'error' ? 'error-text' : 'muted-text'}>
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="eyebrow">Pré-visualização do fluxo</p>
+      <ol className="flow-preview">
+        {flow.nodes.map((node) => (
+          <li key={node.question.id} className={`flow-node${node.reachable ? '' : ' unreachable'}`}>
+            <strong>
+              #{node.question.ordem} {node.question.texto}
+            </strong>
+            {!node.reachable && <span className="status-pill danger">Inacessível</span>}
+            {node.conditions.length > 0 && (
+              <p className="muted-text">Exibida somente se {node.conditions.join(' ou ')}</p>
+            )}
+            <ul className="flow-node__branches">
+              {node.branches.map((branch) => (
+                <li key={`${branch.label}-${branch.targetQuestionId}`}>
+                  <span>{branch.label}</span> →{' '}
+                  <strong>
+                    {branch.targetQuestionId === null
+                      ? 'Fim'
+                      : `#${questions.find((question) => question.id === branch.targetQuestionId)?.ordem ?? '?'}`}
+                  </strong>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+    </section>
+  )
+}
+
+export default SurveyRulesEditor
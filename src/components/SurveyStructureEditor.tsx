@@ -0,0 +1,88 @@
+import { useReducer, useState } from 'react'
+import { parseApiError } from '../services/api'
+import { draftToStructure, saveSurveyDraft } from '../services/surveyStructure'
+import type { SurveyStructure } from '../types/api'
+import {
+  createBuilderState,
+  draftFromStructure,
+  surveyBuilderReducer,
+  validateSurveyDraft,
+} from '../utils/surveyBuilder'
+import QuestionsBuilder from './QuestionsBuilder'
+import SurveyInfoFields from './SurveyInfoFields'
+
+type SurveyStructureEditorProps = {
+  survey: SurveyStructure
+  onCancel: () => void
+  /**
+   * Chamado ao fim da gravação. Com `error`, parte das alterações já foi aplicada:
+   * a estrutura precisa ser recarregada antes de editar de novo.
+   */
+  onSaved: (error?: string) => void
+  /** Abre a pré-visualização com o rascunho atual, ainda não salvo. */
+  onPreview: (structure: SurveyStructure) => void
+}
+
+const SurveyStructureEditor = ({ survey, onCancel, onSaved, onPreview }: SurveyStructureEditorProps) => {
+  const [builder, dispatch] = useReducer(surveyBuilderReducer, survey, (source) =>
+    createBuilderState(draftFromStructure(source)),
+  )
+  const { draft } = builder
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string>()
+
+  const handleSave = async () => {
+    const validationError = validateSurveyDraft(draft)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+    setSaving(true)
+    setError(undefined)
+    try {
+      await saveSurveyDraft(survey, draft)
+      onSaved()
+    } catch (err) {
+      setSaving(false)
+      onSaved(`Parte das alterações não foi salva: ${parseApiError(err)}`)
+    }
+  }
+
+  return (
+    <section className="panel">
+      <div className="panel-header">
+        <div>
+          <p className="eyebrow">Estrutura</p>
+          <h2>Editar pesquisa</h2>
+          <p className="section-subtitle">
+            Perguntas e opções existentes não são apagadas: desative as opções que não devem mais aparecer.
+          </p>
+        </div>
+        <div className="hero-actions">
+          <button className="btn ghost" type="button" onClick={onCancel} disabled={saving}>
+            Cancelar
+          </button>
+          <button className="btn ghost" type="button" onClick={() => onPreview(draftToStructure(survey, draft))}>
+            Pré-visualizar
+          </button>
+          <button className="btn secondary" type="button" onClick={() => dispatch({ type: 'addQuestion' })}>
+            Adicionar pergunta
+          </button>
+          <button className="btn primary" type="button" onClick={() => void handleSave()} disabled={saving}>
+            {saving ? 'Salvando...' : 'Salvar alterações'}
+          </button>
+        </div>
+      </div>
+      {error && <p className="error-text">{error}</p>}
+      <SurveyInfoFields
+        draft={draft}
+        onChange={(changes) => dispatch({ type: 'updateInfo', changes })}
+        activeLabel="Ativa"
+        disabled={saving}
+      />
+      <QuestionsBuilder questions={draft.questions} dispatch={dispatch} notice={builder.notice} disabled={saving} />
+    </section>
+  )
+}
+
+export default SurveyStructureEditor
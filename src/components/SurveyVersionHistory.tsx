@@ -0,0 +1,258 @@
+import { useMemo, useState } from 'react'
+import ConfirmModal from './ConfirmModal'
+import { parseApiError } from '../services/api'
+import { applySurveyStructure, questionsMissingFrom } from '../services/surveyStructure'
+import type { SurveyStructure, SurveyVersion } from '../types/api'
+import { formatDateTime } from '../utils/format'
+import { diffSurveyStructures, type DiffChange, type DiffStatus } from '../utils/surveyDiff'
+
+type SurveyVersionHistoryProps = {
+  survey: SurveyStructure
+  versions: SurveyVersion[]
+  /** Falha ao registrar a versão mais recente. */
+  recordError?: string
+  canRestore: boolean
+  /** `partial` indica que a restauração falhou no meio e a estrutura precisa ser recarregada mesmo assim. */
+  onRestored: (version: SurveyVersion, partial: boolean) => void
+}
+
+type CompareMode = 'previous' | 'current'
+
+const STATUS_LABELS: Record<DiffStatus, string> = {
+  added: 'Incluída',
+  removed: 'Removida',
+  changed: 'Alterada',
+  unchanged: 'Sem alteração',
+}
+
+const CHANGE_LABELS: Record<DiffChange, string> = {
+  reworded: 'Texto alterado',
+  reordered: 'Ordem alterada',
+  retyped: 'Tipo alterado',
+  activated: 'Ativada',
+  deactivated: 'Desativada',
+}
+
+const FIELD_LABELS = { titulo: 'Título', descricao: 'Descrição', ativo: 'Status', dataValidade: 'Validade' }
+
+const formatFieldValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Ativa' : 'Inativa'
+  return String(value)
+}
+
+const SurveyVersionHistory = ({
+  survey,
+  versions,
+  recordError,
+  canRestore,
+  onRestored,
+}: SurveyVersionHistoryProps) => {
+  const [selectedId, setSelectedId] = useState<string>()
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous')
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const [restoreTarget, setRestoreTarget] = useState<SurveyVersion | null>(null)
+  const [restoring, setRestoring] = useState(false)
+  const [error, setError] = useState<string>()
+
+  const selected = versions.find((version) => version.id === selectedId) ?? versions[0]
+  const previous = selected ? versions.find((version) => version.number < selected.number) : undefined
+
+  const diff = useMemo(() => {
+    if (!selected) return null
+    if (compareMode === 'current') return diffSurveyStructures(survey, selected.structure)
+    return previous ? diffSurveyStructures(previous.structure, selected.structure) : null
+  }, [compareMode, previous, selected, survey])
+
+  // Restaurar não apaga perguntas: versões anteriores a uma pergunta que ainda existe não podem ser restauradas.
+  const blockingQuestions = selected ? questionsMissingFrom(survey, selected.structure) : []
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return
+    setRestoring(true)
+    setError(undefined)
+    try {
+      await applySurveyStructure(survey, restoreTarget.structure)
+      onRestored(restoreTarget, false)
+    } catch (err) {
+      setError(`A restauração parou no meio: ${parseApiError(err)} Confira a estrutura antes de tentar de novo.`)
+      onRestored(restoreTarget, true)
+    } finally {
+      setRestoring(false)
+      setRestoreTarget(null)
+    }
+  }
+
+  const restoreDiff = restoreTarget ? diffSurveyStructures(survey, restoreTarget.structure) : null
+
+  return (
+    <section className="panel">
+      <ConfirmModal
+        open={Boolean(restoreTarget)}
+        title={`Restaurar versão ${restoreTarget?.number ?? ''}`}
+        description={
+          restoreDiff
+            ? `${restoreDiff.changeCount} perguntas/opções serão alteradas. Opções criadas depois desta ` +
+              'versão ficarão inativas; nada é apagado e os votos já registrados continuam salvos.'
+            : ''
+        }
+        confirmLabel="Restaurar"
+        confirmLoading={restoring}
+        onConfirm={() => void handleRestore()}
+        onCancel={() => setRestoreTarget(null)}
+      />
+      <div className="panel-header">
+        <div>
+          <p className="eyebrow">Versões</p>
+          <h2>Histórico da estrutura</h2>
+          <p className="section-subtitle">
+            Cada alteração salva nesta tela gera uma versão, guardada neste navegador. Compare versões para saber
+            o que os respondentes viam em cada período.
+          </p>
+        </div>
+      </div>
+      {recordError && <p className="error-text">{recordError}</p>}
+      {error && <p className="error-text">{error}</p>}
+      {versions.length === 0 ? (
+        <p className="muted-text">Nenhuma versão registrada ainda.</p>
+      ) : (
+        <div className="version-history">
+          <ol className="version-history__list">
+            {versions.map((version) => (
+              <li key={version.id}>
+                <button
+                  type="button"
+                  className={`version-history__item${version.id === selected?.id ? ' active' : ''}`}
+                  onClick={() => setSelectedId(version.id)}
+                >
+                  <strong>
+                    v{version.number}
+                    {version.number === versions[0].number ? ' • atual' : ''}
+                  </strong>
+                  <span>{version.reason}</span>
+                  <small className="muted-text">
+                    {formatDateTime(version.createdAt)}
+                    {version.createdBy ? ` • ${version.createdBy}` : ''}
+                  </small>
+                </button>
+              </li>
+            ))}
+          </ol>
+
+          {selected && (
+            <div className="version-history__diff">
+              <div className="filter-group" style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }}>
+                <label>
+                  <span>Comparar</span>
+                  <select value={compareMode} onChange={(event) => setCompareMode(event.target.value as CompareMode)}>
+                    <option value="previous">Com a versão anterior</option>
+                    <option value="current">Estrutura atual → esta versão</option>
+                  </select>
+                </label>
+                <label className="form-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={showUnchanged}
+                    onChange={(event) => setShowUnchanged(event.target.checked)}
+                  />
+                  <span>Mostrar itens sem alteração</span>
+                </label>
+                {canRestore && selected.number !== versions[0].number && (
+                  <button
+                    className="btn secondary small"
+                    type="button"
+                    onClick={() => setRestoreTarget(selected)}
+                    disabled={blockingQuestions.length > 0}
+                  >
+                    Restaurar v{selected.number}
+                  </button>
+                )}
+              </div>
+
+              {canRestore && selected.number !== versions[0].number && blockingQuestions.length > 0 && (
+                <p className="muted-text">
+                  Esta versão não pode ser restaurada: {blockingQuestions.length} pergunta(s) criada(s) depois dela
+                  teriam de ser apagadas, junto com seus votos.
+                </p>
+              )}
+              {!diff && <p className="muted-text">Primeira versão registrada: não há anterior para comparar.</p>}
+              {diff && diff.changeCount === 0 && diff.fields.length === 0 && !diff.rulesChanged && (
+                <p className="muted-text">Nenhuma diferença nas perguntas e opções.</p>
+              )}
+              {diff && (
+                <>
+                  {diff.fields.length > 0 && (
+                    <ul className="simple-list">
+                      {diff.fields.map((field) => (
+                        <li key={field.field}>
+                          <span>{FIELD_LABELS[field.field]}</span>
+                          <span>
+                            <del>{formatFieldValue(field.before)}</del> → {formatFieldValue(field.after)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {diff.rulesChanged && <p className="muted-text">As regras de ramificação também mudaram.</p>}
+                  <ul className="version-diff">
+                    {diff.questions
+                      .filter((question) => showUnchanged || question.status !== 'unchanged')
+                      .map((question) => {
+                        const shown = question.after ?? question.before
+                        return (
+                          <li key={question.id} className={`version-diff__item ${question.status}`}>
+                            <div className="version-diff__row">
+                              <span className="status-pill neutral">{STATUS_LABELS[question.status]}</span>
+                              <strong>
+                                #{shown?.ordem} {shown?.texto}
+                              </strong>
+                              {question.changes.map((change) => (
+                                <span key={change} className="status-pill neutral">
+                                  {CHANGE_LABELS[change]}
+                                </span>
+                              ))}
+                            </div>
+                            {question.changes.includes('reworded') && (
+                              <p className="muted-text">
+                                Antes: <del>{question.before?.texto}</del>
+                              </p>
+                            )}
+                            {question.changes.includes('reordered') && (
+                              <p className="muted-text">
+                                Posição #{question.before?.ordem} → #{question.after?.ordem}
+                              </p>
+                            )}
+                            <ul className="version-diff__options">
+                              {question.options
+                                .filter((option) => showUnchanged || option.status !== 'unchanged')
+                                .map((option) => (
+                                  <li key={option.id} className={`version-diff__item ${option.status}`}>
+                                    <span>{(option.after ?? option.before)?.texto}</span>
+                                    {option.changes.includes('reworded') && (
+                                      <del className="muted-text">{option.before?.texto}</del>
+                                    )}
+                                    {option.status !== 'unchanged' && (
+                                      <small className="muted-text">
+                                        {option.changes.length > 0
+                                          ? option.changes.map((change) => CHANGE_LABELS[change]).join(', ')
+                                          : STATUS_LABELS[option.status]}
+                                      </small>
+                                    )}
+                                  </li>
+                                ))}
+                            </ul>
+                          </li>
+                        )
+                      })}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
+
+export default SurveyVersionHistory
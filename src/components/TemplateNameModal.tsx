@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+
+type TemplateNameModalProps = {
+  open: boolean
+  title: string
+  initialName?: string
+  confirmLabel?: string
+  confirmLoading?: boolean
+  error?: string
+  onConfirm: (name: string) => void
+  onCancel: () => void
+}
+
+const TemplateNameModal = ({
+  open,
+  title,
+  initialName = '',
+  confirmLabel = 'Salvar',
+  confirmLoading,
+  error,
+  onConfirm,
+  onCancel,
+}: TemplateNameModalProps) => {
+  const [name, setName] = useState(initialName)
+
+  if (!open) return null
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    if (!name.trim()) return
+    onConfirm(name.trim())
+  }
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-modal="true">
+      <form className="modal confirm" onSubmit={handleSubmit}>
+        <div className="modal__header">
+          <div>
+            <p className="eyebrow">Template</p>
+            <h2>{title}</h2>
+          </div>
+        </div>
+        <div className="modal__content">
+          <label className="form-field">
+            <span>Nome do template</span>
+            <input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Satisfação trimestral"
+              required
+              autoFocus
+            />
+          </label>
+          {error && <p className="error-text">{error}</p>}
+        </div>
+        <div className="modal__footer">
+          <button className="btn ghost" type="button" onClick={onCancel} disabled={confirmLoading}>
+            Cancelar
+          </button>
+          <button className="btn primary" type="submit" disabled={confirmLoading || !name.trim()}>
+            {confirmLoading ? 'Salvando...' : confirmLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default TemplateNameModal
@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import type { CreateUserPayload, User, UserRole } from '../types/api'
+import { validateNewPassword } from '../utils/password'
+import { ROLE_LABELS } from '../utils/permissions'
+
+type UserFormModalProps = {
+  open: boolean
+  /** Usuário em edição; sem ele, o formulário cria uma conta nova. */
+  user?: User
+  /** O usuário logado editando a própria conta: papel e status ficam travados. */
+  isSelf?: boolean
+  saving?: boolean
+  error?: string
+  onSubmit: (payload: CreateUserPayload) => void
+  onCancel: () => void
+}
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  ADMIN: 'Acesso completo, incluindo métricas e gestão de usuários.',
+  EDITOR: 'Cria e edita pesquisas e templates, sem métricas nem remoções.',
+  VIEWER: 'Apenas consulta pesquisas e templates.',
+}
+
+const UserFormModal = ({ open, user, isSelf, saving, error, onSubmit, onCancel }: UserFormModalProps) => {
+  const isEditing = Boolean(user)
+  const [form, setForm] = useState({
+    username: user?.username ?? '',
+    nome: user?.nome ?? '',
+    email: user?.email ?? '',
+    role: user?.role ?? ('VIEWER' as UserRole),
+    ativo: user?.ativo ?? true,
+    password: '',
+    confirmPassword: '',
+  })
+  const [validationError, setValidationError] = useState<string>()
+
+  if (!open) return null
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const passwordError = isEditing ? undefined : validateNewPassword(form.password, form.confirmPassword)
+    setValidationError(passwordError)
+    if (passwordError) return
+    onSubmit({
+      username: form.username.trim(),
+      nome: form.nome.trim() || null,
+      email: form.email.trim() || null,
+      role: form.role,
+      ativo: form.ativo,
+      password: form.password,
+    })
+  }
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-modal="true">
+      <form className="modal confirm" onSubmit={handleSubmit}>
+        <div className="modal__header">
+          <div>
+            <p className="eyebrow">Usuário</p>
+            <h2>{isEditing ? `Editar ${user?.username}` : 'Novo usuário'}</h2>
+          </div>
+        </div>
+        <div className="modal__content">
+          <label className="form-field">
+            <span>Login</span>
+            <input
+              value={form.username}
+              onChange={(event) => setForm((prev) => ({ ...prev, username: event.target.value }))}
+              placeholder="maria.souza"
+              autoComplete="off"
+              required
+              disabled={isEditing}
+              autoFocus={!isEditing}
+            />
+          </label>
+          <label className="form-field">
+            <span>Nome</span>
+            <input
+              value={form.nome}
+              onChange={(event) => setForm((prev) => ({ ...prev, nome: event.target.value }))}
+              placeholder="Maria Souza"
+            />
+          </label>
+          <label className="form-field">
+            <span>E-mail</span>
+            <input
+              type="email"
+              value={form.email}
+              onChange={(event) => setForm((prev) => ({ ...prev, email: event.target.value }))}
+              placeholder="maria@empresa.com"
+            />
+          </label>
+          <label className="form-field">
+            <span>Papel</span>
+            <select
+              value={form.role}
+              onChange={(event) => setForm((prev) => ({ ...prev, role: event.target.value as UserRole }))}
+              disabled={isSelf}
+              title={isSelf ? 'Você não pode alterar o próprio papel.' : undefined}
+            >
+              {(Object.keys(ROLE_LABELS) as UserRole[]).map((role) => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+            <small className="muted-text">{ROLE_DESCRIPTIONS[form.role]}</small>
+          </label>
+          {!isEditing && (
+            <>
+              <label className="form-field">
+                <span>Senha inicial</span>
+                <input
+                  type="password"
+                  value={form.password}
+                  onChange={(event) => setForm((prev) => ({ ...prev, password: event.target.value }))}
+                  autoComplete="new-password"
+                  required
+                />
+              </label>
+              <label className="form-field">
+                <span>Confirmar senha</span>
+                <input
+                  type="password"
+                  value={form.confirmPassword}
+                  onChange={(event) => setForm((prev) => ({ ...prev, confirmPassword: event.target.value }))}
+                  autoComplete="new-password"
+                  required
+                />
+              </label>
+            </>
+          )}
+          <label className="form-checkbox">
+            <input
+              type="checkbox"
+              checked={form.ativo}
+              onChange={(event) => setForm((prev) => ({ ...prev, ativo: event.target.checked }))}
+              disabled={isSelf}
+              title={isSelf ? 'Você não pode desativar a própria conta.' : undefined}
+            />
+            <span>Pode entrar no backoffice</span>
+          </label>
+          {(validationError || error) && <p className="error-text">{validationError ?? error}</p>}
+        </div>
+        <div className="modal__footer">
+          <button className="btn ghost" type="button" onClick={onCancel} disabled={saving}>
+            Cancelar
+          </button>
+          <button className="btn primary" type="submit" disabled={saving}>
+            {saving ? 'Salvando...' : isEditing ? 'Salvar alterações' : 'Criar usuário'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default UserFormModal
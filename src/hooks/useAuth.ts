@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react'
+import type { AuthUser, UserRole } from '../types/api'
+import type { Permission } from '../utils/permissions'
+
+export type AuthContextValue = {
+  user: AuthUser | null
+  role: UserRole | null
+  can: (permission: Permission) => boolean
+}
+
+export const AuthContext = createContext<AuthContextValue>({
+  user: null,
+  role: null,
+  can: () => false,
+})
+
+export const useAuth = () => useContext(AuthContext)
@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { TAB_ID, draftApi, isDraftConflictError } from '../services/api'
+import type { SurveyDraft, SurveyDraftContent } from '../types/api'
+
+const AUTOSAVE_DELAY_MS = 800
+
+export type DraftAutosaveStatus = 'idle' | 'saving' | 'saved' | 'conflict' | 'error'
+
+export type DraftConflict = {
+  /** O que a outra aba gravou; null quando ela descartou ou publicou o rascunho. */
+  remote: SurveyDraft | null
+}
+
+export type DraftConflictChoice = 'keepMine' | 'useTheirs' | 'saveAsCopy'
+
+// Ordem fixa dos campos: o conteúdo montado pela página e o lido do armazenamento precisam bater.
+const draftFingerprint = ({ titulo, descricao, ativo, dataValidade, questions }: SurveyDraftContent) =>
+  JSON.stringify([titulo, descricao, ativo, dataValidade, questions])
+
+const isEmptyDraft = (content: SurveyDraftContent) =>
+  !content.titulo.trim() &&
+  !content.descricao.trim() &&
+  content.questions.every(
+    (question) => !question.texto.trim() && question.options.every((option) => !option.texto.trim()),
+  )
+
+/**
+ * Grava o rascunho no navegador pouco depois de cada alteração e ao sair da página.
+ * Se outra aba gravar o mesmo rascunho, acompanha a outra quando não há nada
+ * pendente aqui; caso contrário, para de gravar e expõe o conflito.
+ */
+export const useDraftAutosave = (content: SurveyDraftContent, apply: (draft: SurveyDraft) => void) => {
+  const fingerprint = useMemo(() => draftFingerprint(content), [content])
+  const [draft, setDraft] = useState<SurveyDraft | null>(null)
+  const [status, setStatus] = useState<DraftAutosaveStatus>('idle')
+  const [conflict, setConflict] = useState<DraftConflict | null>(null)
+  const draftRef = useRef<SurveyDraft | null>(null)
+  const savedFingerprint = useRef<string | null>(null)
+  // Trocar de rascunho invalida gravações que ainda estão em andamento.
+  const session = useRef(0)
+  const latest = useRef({ content, fingerprint, apply, conflict })
+
+  useEffect(() => {
+    latest.current = { content, fingerprint, apply, conflict }
+  })
+
+  const track = useCallback((next: SurveyDraft | null, nextFingerprint: string | null) => {
+    session.current += 1
+    draftRef.current = next
+    savedFingerprint.current = nextFingerprint
+    setDraft(next)
+    setConflict(null)
+    setStatus(next ? 'saved' : 'idle')
+  }, [])
+
+  const persist = useCallback(async ({ force = false, asNew = false } = {}) => {
+    const { content: current, fingerprint: currentFingerprint } = latest.current
+    if (isEmptyDraft(current)) return
+    if (!force && !asNew && currentFingerprint === savedFingerprint.current) return
+    const base = asNew ? null : draftRef.current
+    const startedIn = session.current
+    setStatus('saving')
+    try {
+      const saved = await draftApi.save(current, { id: base?.id, baseRevision: base?.revision, force })
+      if (startedIn !== session.current) return
+      draftRef.current = saved
+      savedFingerprint.current = currentFingerprint
+      setDraft(saved)
+      setConflict(null)
+      setStatus('saved')
+    } catch (err) {
+      if (startedIn !== session.current) return
+      if (isDraftConflictError(err)) {
+        setConflict({ remote: err.remote })
+        setStatus('conflict')
+        return
+      }
+      setStatus('error')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (conflict || fingerprint === savedFingerprint.current) return
+    const timer = window.setTimeout(() => void persist(), AUTOSAVE_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [conflict, fingerprint, persist])
+
+  useEffect(() => {
+    const flush = () => {
+      if (!latest.current.conflict) void persist()
+    }
+    window.addEventListener('pagehide', flush)
+    return () => {
+      window.removeEventListener('pagehide', flush)
+      flush()
+    }
+  }, [persist])
+
+  useEffect(
+    () =>
+      draftApi.subscribe(() => {
+        const own = draftRef.current
+        if (!own) return
+        void draftApi.list().then((drafts) => {
+          const remote = drafts.find((item) => item.id === own.id) ?? null
+          if (remote && (remote.savedBy === TAB_ID || remote.revision <= own.revision)) return
+          if (remote && latest.current.fingerprint === savedFingerprint.current) {
+            track(remote, draftFingerprint(remote))
+            latest.current.apply(remote)
+            return
+          }
+          setConflict({ remote })
+          setStatus('conflict')
+        })
+      }),
+    [track],
+  )
+
+  /** Passa a editar um rascunho salvo, preenchendo o formulário com ele. */
+  const open = useCallback(
+    (next: SurveyDraft) => {
+      track(next, draftFingerprint(next))
+      latest.current.apply(next)
+    },
+    [track],
+  )
+
+  /** Apaga o rascunho atual; o conteúdo que está na tela só volta a ser gravado se for alterado. */
+  const discard = useCallback(async () => {
+    const current = draftRef.current
+    track(null, latest.current.fingerprint)
+    if (current) await draftApi.remove(current.id)
+  }, [track])
+
+  const resolveConflict = useCallback(
+    async (choice: DraftConflictChoice) => {
+      const remote = latest.current.conflict?.remote ?? null
+      if (choice === 'useTheirs') {
+        if (remote) {
+          open(remote)
+        } else {
+          track(null, latest.current.fingerprint)
+        }
+        return
+      }
+      setConflict(null)
+      await persist({ force: choice === 'keepMine', asNew: choice === 'saveAsCopy' })
+    },
+    [open, persist, track],
+  )
+
+  return { draft, status, conflict, open, discard, resolveConflict }
+}
@@ -0,0 +1,12 @@
+import AuditLogPanel from '../components/AuditLogPanel'
+import Layout from '../components/Layout'
+
+const AuditLogPage = () => {
+  return (
+    <Layout title="Atividade" subtitle="Histórico de alterações">
+      <AuditLogPanel />
+    </Layout>
+  )
+}
+
+export default AuditLogPage
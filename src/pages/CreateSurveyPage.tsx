@@ -1,216 +1,242 @@
-import { useState } from 'react'
-import type { FormEvent } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useCallback, useEffect, useReducer, useState } from 'react'
+import type { ChangeEvent, FormEvent } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import ConfirmModal from '../components/ConfirmModal'
 import Layout from '../components/Layout'
-import { optionApi, parseApiError, questionApi, surveyApi } from '../services/api'
+import CreationProgress from '../components/CreationProgress'
+import QuestionsBuilder from '../components/QuestionsBuilder'
+import SavedDraftsPanel from '../components/SavedDraftsPanel'
+import SurveyInfoFields from '../components/SurveyInfoFields'
+import { useAuth } from '../hooks/useAuth'
+import { useDraftAutosave, type DraftAutosaveStatus } from '../hooks/useDraftAutosave'
+import { draftApi, parseApiError, surveyApi, templateApi } from '../services/api'
+import {
+  planDraftCreation,
+  rollbackSurveyCreation,
+  runSurveyCreation,
+  type SurveyCreationState,
+} from '../services/surveyCreation'
+import type { SurveyDraft, SurveyStructure, SurveyTemplate } from '../types/api'
+import {
+  MAX_ACTIVE_OPTIONS,
+  buildDraftQuestions,
+  createBuilderState,
+  emptySurveyDraft,
+  surveyBuilderReducer,
+  toDateTimeLocalValue,
+  validateSurveyDraft,
+} from '../utils/surveyBuilder'
+import { parseSurveyImportFile, type SurveyImportResult } from '../utils/surveyImport'
 
-const uniqueId = () => {
-  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
-    return crypto.randomUUID()
-  }
-  return `${Date.now()}-${Math.random().toString(16).slice(2)}`
-}
-
-type DraftOption = {
-  id: string
-  texto: string
-  ativo: boolean
-}
+const formatTime = (date: string) => new Date(date).toLocaleTimeString('pt-BR', { timeStyle: 'short' })
 
-type DraftQuestion = {
-  id: string
-  texto: string
-  ordem: number
-  options: DraftOption[]
+const autosaveMessage = (status: DraftAutosaveStatus, draft: SurveyDraft | null) => {
+  if (status === 'saving') return 'Salvando rascunho...'
+  if (status === 'error') return 'Não foi possível salvar o rascunho neste navegador.'
+  if (status === 'conflict') return 'Salvamento automático pausado: o rascunho mudou em outra aba.'
+  if (draft) return `Rascunho salvo às ${formatTime(draft.updatedAt)}`
+  return 'O rascunho é salvo automaticamente enquanto você edita.'
 }
 
-const MAX_ACTIVE_OPTIONS = 5
-
-const createOptionDraft = (ativo = true): DraftOption => ({
-  id: uniqueId(),
-  texto: '',
-  ativo,
-})
-
-const createQuestionDraft = (ordem: number): DraftQuestion => ({
-  id: uniqueId(),
-  texto: '',
-  ordem,
-  options: [
-    createOptionDraft(),
-    createOptionDraft(),
-    createOptionDraft(),
-    createOptionDraft(),
-    createOptionDraft(),
-  ],
-})
-
-const countActiveOptions = (options: DraftOption[]) => options.filter((option) => option.ativo).length
-
-const TEMPLATE_TITLE = 'Satisfação dos Clientes – Rede de Supermercados'
-const TEMPLATE_DESCRIPTION =
-  'Esta pesquisa tem como objetivo avaliar a satisfação dos clientes em diferentes áreas dos supermercados. Selecione o supermercado que melhor representa sua opinião para cada item.'
-const TEMPLATE_OPTIONS = [
-  'Supermercado NovaVida',
-  'Supermercado PreçoBom',
-  'Supermercado Econômico+',
-  'Supermercado FamíliaMax',
-  'Supermercado UltraMarket',
-]
-const TEMPLATE_QUESTIONS = [
-  'Qual supermercado você considera mais organizado e limpo nas áreas internas?',
-  'Qual supermercado oferece a melhor limpeza e higienização dos banheiros?',
-  'Qual supermercado tem o melhor estacionamento em termos de espaço, acesso e vagas disponíveis?',
-  'Qual supermercado possui a garagem mais segura e bem organizada?',
-  'Em qual supermercado o setor de hortifrúti oferece melhor qualidade e apresentação dos produtos?',
-  'Qual supermercado oferece o melhor atendimento no setor de açougue?',
-  'Qual supermercado possui a melhor organização nas gôndolas e prateleiras?',
-  'Em qual supermercado você encontra filas mais rápidas e caixas mais eficientes?',
-  'Em qual supermercado você percebe maior variedade de produtos?',
-  'Qual supermercado você considera, no geral, o melhor para fazer compras?',
-]
-
 const CreateSurveyPage = () => {
   const navigate = useNavigate()
-  const [titulo, setTitulo] = useState('')
-  const [descricao, setDescricao] = useState('')
-  const [ativo, setAtivo] = useState(true)
-  const [dataValidade, setDataValidade] = useState('')
-  const [questions, setQuestions] = useState<DraftQuestion[]>([createQuestionDraft(1)])
+  const [searchParams] = useSearchParams()
+  const { can } = useAuth()
+  const canRollback = can('survey:delete')
+  const duplicateId = Number(searchParams.get('duplicate')) || undefined
+  const templateParam = searchParams.get('template')
+  const draftParam = searchParams.get('draft')
+  const [builder, dispatch] = useReducer(surveyBuilderReducer, undefined, () => createBuilderState())
+  const { draft } = builder
   const [error, setError] = useState<string>()
   const [isSaving, setIsSaving] = useState(false)
   const [success, setSuccess] = useState<string>()
   const [selectedTemplate, setSelectedTemplate] = useState('')
+  const [templates, setTemplates] = useState<SurveyTemplate[]>([])
+  const [creation, setCreation] = useState<SurveyCreationState | null>(null)
+  const [autoRollback, setAutoRollback] = useState(false)
+  const [importPreview, setImportPreview] = useState<(SurveyImportResult & { fileName: string }) | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [duplicateSource, setDuplicateSource] = useState<SurveyStructure>()
+  const [includeInactiveOptions, setIncludeInactiveOptions] = useState(false)
+  const [loadingDuplicate, setLoadingDuplicate] = useState(false)
+  const [savedDrafts, setSavedDrafts] = useState<SurveyDraft[]>([])
+  const [draftToDiscard, setDraftToDiscard] = useState<SurveyDraft | null>(null)
 
-  const handleAddQuestion = () => {
-    setQuestions((prev) => [...prev, createQuestionDraft(prev.length + 1)])
+  const applyDraft = (saved: SurveyDraft) => {
+    dispatch({ type: 'reset', draft: saved })
+    setSelectedTemplate('')
+    setError(undefined)
+    setSuccess(undefined)
   }
 
-  const handleRemoveQuestion = (id: string) => {
-    setQuestions((prev) => {
-      const filtered = prev.filter((question) => question.id !== id)
-      return filtered.length ? filtered : prev
+  const autosave = useDraftAutosave(draft, applyDraft)
+  const { open: openDraft } = autosave
+
+  const refreshDrafts = useCallback(async () => {
+    setSavedDrafts(await draftApi.list())
+  }, [])
+
+  useEffect(() => {
+    void refreshDrafts()
+    return draftApi.subscribe(() => void refreshDrafts())
+  }, [refreshDrafts, autosave.draft])
+
+  useEffect(() => {
+    const loadDraft = async () => {
+      if (!draftParam) return
+      try {
+        openDraft(await draftApi.get(draftParam))
+      } catch (err) {
+        setError(parseApiError(err))
+      }
+    }
+    void loadDraft()
+  }, [draftParam, openDraft])
+
+  const applyDuplicate = (structure: SurveyStructure, withInactiveOptions: boolean) => {
+    dispatch({
+      type: 'reset',
+      draft: {
+        titulo: `${structure.titulo} (cópia)`,
+        descricao: structure.descricao ?? '',
+        ativo: structure.ativo,
+        dataValidade: '',
+        questions: buildDraftQuestions(structure.questions, withInactiveOptions),
+      },
     })
+    setSelectedTemplate('')
   }
 
-  const updateQuestion = (id: string, updates: Partial<DraftQuestion>) => {
-    setQuestions((prev) =>
-      prev.map((question) => (question.id === id ? { ...question, ...updates } : question)),
-    )
+  useEffect(() => {
+    const loadDuplicate = async () => {
+      if (!duplicateId) return
+      setLoadingDuplicate(true)
+      setError(undefined)
+      try {
+        const structure = await surveyApi.getStructure(duplicateId, {
+          includeDeleted: true,
+          includeInactiveOptions: true,
+        })
+        setDuplicateSource(structure)
+        applyDuplicate(structure, false)
+      } catch (err) {
+        setError(parseApiError(err))
+      } finally {
+        setLoadingDuplicate(false)
+      }
+    }
+    void loadDuplicate()
+  }, [duplicateId])
+
+  const applyTemplate = (template: SurveyTemplate) => {
+    setSelectedTemplate(template.id)
+    dispatch({
+      type: 'apply',
+      changes: {
+        titulo: template.titulo,
+        descricao: template.descricao ?? '',
+        ativo: true,
+        questions: buildDraftQuestions(template.questions),
+      },
+    })
+    setError(undefined)
+    setSuccess(undefined)
   }
 
-  const handleAddOption = (questionId: string) => {
-    setQuestions((prev) =>
-      prev.map((question) => {
-        if (question.id !== questionId) return question
-        const activeCount = countActiveOptions(question.options)
-        const reachedLimit = activeCount >= MAX_ACTIVE_OPTIONS
-        if (reachedLimit) {
-          setError(
-            `Máximo de ${MAX_ACTIVE_OPTIONS} opções ativas por pergunta. A nova opção foi criada como inativa.`,
-          )
-        }
-        const newOption = createOptionDraft(!reachedLimit)
-        return {
-          ...question,
-          options: [...question.options, newOption],
-        }
-      }),
-    )
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const data = await templateApi.list()
+        setTemplates(data)
+        const initial = templateParam ? data.find((template) => template.id === templateParam) : undefined
+        if (initial) applyTemplate(initial)
+      } catch (err) {
+        setError(parseApiError(err))
+      }
+    }
+    void loadTemplates()
+  }, [templateParam])
+
+  const handleIncludeInactiveChange = (checked: boolean) => {
+    setIncludeInactiveOptions(checked)
+    if (duplicateSource) {
+      applyDuplicate(duplicateSource, checked)
+    }
   }
 
-  const handleRemoveOption = (questionId: string, optionId: string) => {
-    setQuestions((prev) =>
-      prev.map((question) =>
-        question.id === questionId
-          ? {
-              ...question,
-              options:
-                question.options.length > 1
-                  ? question.options.filter((option) => option.id !== optionId)
-                  : question.options,
-            }
-          : question,
-      ),
-    )
+  const handleImportFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    setIsImporting(true)
+    setError(undefined)
+    setSuccess(undefined)
+    try {
+      const result = await parseSurveyImportFile(file, MAX_ACTIVE_OPTIONS)
+      setImportPreview({ ...result, fileName: file.name })
+    } catch (err) {
+      setImportPreview(null)
+      setError(parseApiError(err))
+    } finally {
+      setIsImporting(false)
+    }
   }
 
-  const updateOption = (questionId: string, optionId: string, updates: Partial<DraftOption>) => {
-    setQuestions((prev) =>
-      prev.map((question) => {
-        if (question.id !== questionId) return question
-        const targetOption = question.options.find((option) => option.id === optionId)
-        if (!targetOption) return question
-
-        const activeCount = countActiveOptions(question.options)
-        const willActivate = updates.ativo === true && !targetOption.ativo
-        if (willActivate && activeCount >= MAX_ACTIVE_OPTIONS) {
-          setError(
-            `Máximo de ${MAX_ACTIVE_OPTIONS} opções ativas por pergunta. Desative uma opção antes de ativar outra.`,
-          )
-          return question
-        }
-
-        return {
-          ...question,
-          options: question.options.map((option) =>
-            option.id === optionId ? { ...option, ...updates } : option,
-          ),
-        }
-      }),
-    )
+  const applyImport = () => {
+    if (!importPreview) return
+    const imported = importPreview.survey
+    dispatch({
+      type: 'apply',
+      changes: {
+        ...(imported.titulo && { titulo: imported.titulo }),
+        ...(imported.descricao && { descricao: imported.descricao }),
+        ...(imported.ativo !== undefined && { ativo: imported.ativo }),
+        ...(imported.dataValidade && { dataValidade: toDateTimeLocalValue(imported.dataValidade) }),
+        questions: buildDraftQuestions(imported.questions),
+      },
+    })
+    setSelectedTemplate('')
+    setImportPreview(null)
+    setError(undefined)
+    setSuccess(`Estrutura importada de ${importPreview.fileName}. Revise e salve para criar a pesquisa.`)
   }
 
+  const importHasErrors = importPreview?.issues.some((issue) => issue.severity === 'error') ?? false
+
   const handleSubmit = async (event: FormEvent) => {
     event.preventDefault()
     setError(undefined)
     setSuccess(undefined)
 
-    if (!titulo.trim()) {
-      setError('Informe um título para a pesquisa.')
+    const validationError = validateSurveyDraft(draft)
+    if (validationError) {
+      setError(validationError)
       return
     }
 
-    if (!questions.every((question) => question.texto.trim())) {
-      setError('Todas as perguntas precisam de um texto.')
-      return
-    }
-
-    const hasTooManyActiveOptions = questions.some(
-      (question) => countActiveOptions(question.options) > MAX_ACTIVE_OPTIONS,
-    )
-    if (hasTooManyActiveOptions) {
-      setError(`Cada pergunta pode ter no máximo ${MAX_ACTIVE_OPTIONS} opções ativas.`)
-      return
-    }
+    await executeCreation(planDraftCreation(draft))
+  }
 
+  const executeCreation = async (plan: SurveyCreationState) => {
     setIsSaving(true)
+    setError(undefined)
     try {
-      const createdSurvey = await surveyApi.create({
-        titulo: titulo.trim(),
-        descricao: descricao.trim() || null,
-        ativo,
-        dataValidade: dataValidade ? new Date(dataValidade).toISOString() : null,
-      })
-
-      for (const question of questions) {
-        const createdQuestion = await questionApi.create({
-          texto: question.texto.trim(),
-          ordem: question.ordem,
-          surveyId: createdSurvey.id,
-        })
-        for (const option of question.options) {
-          if (!option.texto.trim()) continue
-          await optionApi.create({
-            texto: option.texto.trim(),
-            ativo: option.ativo,
-            questionId: createdQuestion.id,
-          })
-        }
+      const result = await runSurveyCreation(plan, setCreation)
+      if (result.status === 'done' && result.surveyId) {
+        await autosave.discard()
+        setSuccess('Pesquisa criada com sucesso.')
+        navigate(`/surveys/${result.surveyId}`)
+        return
+      }
+      if (autoRollback && canRollback) {
+        const rolledBack = await rollbackSurveyCreation(result, setCreation)
+        setError(
+          rolledBack.status === 'rolledBack'
+            ? `A criação falhou e foi desfeita: ${result.error}`
+            : rolledBack.error,
+        )
       }
-
-      setSuccess('Pesquisa criada com sucesso.')
-      navigate(`/surveys/${createdSurvey.id}`)
     } catch (err) {
       setError(parseApiError(err))
     } finally {
@@ -218,13 +244,107 @@ const CreateSurveyPage = () => {
     }
   }
 
+  const handleRollback = async () => {
+    if (!creation) return
+    setIsSaving(true)
+    try {
+      await rollbackSurveyCreation(creation, setCreation)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const hasPendingCreation = creation?.status === 'failed' && Boolean(creation.surveyId)
+
+  const otherDrafts = savedDrafts.filter((draft) => draft.id !== autosave.draft?.id)
+  const remoteDraft = autosave.conflict?.remote
+
+  const discardSavedDraft = async () => {
+    if (!draftToDiscard) return
+    if (draftToDiscard.id === autosave.draft?.id) {
+      await autosave.discard()
+    } else {
+      await draftApi.remove(draftToDiscard.id)
+    }
+    setDraftToDiscard(null)
+    await refreshDrafts()
+  }
+
+  const clearForm = () => {
+    dispatch({ type: 'reset', draft: emptySurveyDraft() })
+    setSelectedTemplate('')
+  }
+
   return (
     <Layout title="Nova pesquisa" subtitle="Crie a estrutura com perguntas e opções">
+      <ConfirmModal
+        open={Boolean(draftToDiscard)}
+        title="Descartar rascunho"
+        description={`O rascunho "${draftToDiscard?.titulo.trim() || 'Sem título'}" será apagado deste navegador.`}
+        confirmLabel="Descartar"
+        onConfirm={() => void discardSavedDraft()}
+        onCancel={() => setDraftToDiscard(null)}
+      />
+      {autosave.conflict && (
+        <div className="session-banner expired" role="alert">
+          <span>
+            {remoteDraft
+              ? `Este rascunho foi alterado em outra aba às ${formatTime(remoteDraft.updatedAt)}. ` +
+                'As alterações desta aba ainda não foram salvas.'
+              : 'Este rascunho foi descartado ou publicado em outra aba.'}
+          </span>
+          <button
+            className="btn ghost small"
+            type="button"
+            onClick={() => void autosave.resolveConflict('saveAsCopy')}
+          >
+            Salvar o meu como novo rascunho
+          </button>
+          {remoteDraft ? (
+            <>
+              <button
+                className="btn ghost small"
+                type="button"
+                onClick={() => void autosave.resolveConflict('useTheirs')}
+              >
+                Carregar o da outra aba
+              </button>
+              <button
+                className="btn secondary small"
+                type="button"
+                onClick={() => void autosave.resolveConflict('keepMine')}
+              >
+                Sobrescrever com o meu
+              </button>
+            </>
+          ) : (
+            <button
+              className="btn secondary small"
+              type="button"
+              onClick={() => {
+                void autosave.resolveConflict('useTheirs')
+                clearForm()
+              }}
+            >
+              Descartar o meu
+            </button>
+          )}
+        </div>
+      )}
+      <SavedDraftsPanel
+        drafts={otherDrafts}
+        prompt={!autosave.draft && !duplicateId && !templateParam && !draftParam}
+        onOpen={openDraft}
+        onDiscard={setDraftToDiscard}
+      />
       <section className="panel">
         <div className="panel-header">
           <div>
             <p className="eyebrow">Cadastro</p>
             <h2>Informações básicas</h2>
+            <p className={autosave.status === 'error' ? 'error-text' : 'section-subtitle'}>
+              {autosaveMessage(autosave.status, autosave.draft)}
+            </p>
           </div>
           <div className="hero-actions">
             <label className="form-field" style={{ minWidth: '220px' }}>
@@ -233,41 +353,27 @@ const CreateSurveyPage = () => {
                 <select
                   value={selectedTemplate}
                   onChange={(event) => {
-                    const value = event.target.value
-                    setSelectedTemplate(value)
-                    if (value === 'supermarkets') {
-                      const builtQuestions = TEMPLATE_QUESTIONS.map((texto, index) => ({
-                        id: uniqueId(),
-                        texto,
-                        ordem: index + 1,
-                        options: TEMPLATE_OPTIONS.map((optionTexto) => ({
-                          id: uniqueId(),
-                          texto: optionTexto,
-                          ativo: true,
-                        })),
-                      }))
-                      setTitulo(TEMPLATE_TITLE)
-                      setDescricao(TEMPLATE_DESCRIPTION)
-                      setAtivo(true)
-                      setQuestions(builtQuestions)
-                      setError(undefined)
-                      setSuccess(undefined)
+                    const template = templates.find((item) => item.id === event.target.value)
+                    if (template) {
+                      applyTemplate(template)
+                    } else {
+                      setSelectedTemplate('')
                     }
                   }}
                 >
                   <option value="">Selecione</option>
-                  <option value="supermarkets">Satisfação – Supermercados</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.nome}
+                    </option>
+                  ))}
                 </select>
                 <button
                   type="button"
                   className="btn ghost small"
                   onClick={() => {
-                    setTitulo('')
-                    setDescricao('')
-                    setAtivo(true)
-                    setDataValidade('')
-                    setQuestions([createQuestionDraft(1)])
-                    setSelectedTemplate('')
+                    void autosave.discard()
+                    clearForm()
                     setError(undefined)
                     setSuccess(undefined)
                   }}
@@ -276,124 +382,128 @@ const CreateSurveyPage = () => {
                 </button>
               </div>
             </label>
+            <label className="form-field">
+              <span>Importar JSON/CSV</span>
+              <input
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                onChange={(event) => void handleImportFile(event)}
+                disabled={isImporting || isSaving}
+              />
+            </label>
           </div>
         </div>
-        <form className="form-vertical" onSubmit={handleSubmit}>
-          <label className="form-field">
-            <span>Título</span>
-            <input
-              value={titulo}
-              onChange={(event) => setTitulo(event.target.value)}
-              required
-              placeholder="Pesquisa de Satisfação"
-            />
-          </label>
-          <label className="form-field">
-            <span>Descrição</span>
-            <textarea
-              value={descricao}
-              onChange={(event) => setDescricao(event.target.value)}
-              placeholder="Contexto ou objetivo da pesquisa"
-              maxLength={1000}
-            />
-          </label>
-          <label className="form-field">
-            <span>Data de validade</span>
+        <form onSubmit={handleSubmit}>
+          <SurveyInfoFields draft={draft} onChange={(changes) => dispatch({ type: 'updateInfo', changes })} />
+        </form>
+      </section>
+
+      {duplicateId && (
+        <section className="panel">
+          <div className="panel-header">
+            <div>
+              <p className="eyebrow">Duplicação</p>
+              <h2>
+                {duplicateSource ? `Cópia de "${duplicateSource.titulo}"` : `Pesquisa #${duplicateId}`}
+              </h2>
+              <p className="section-subtitle">
+                {loadingDuplicate
+                  ? 'Carregando estrutura...'
+                  : 'Revise o rascunho e defina uma nova validade antes de salvar.'}
+              </p>
+            </div>
+          </div>
+          <label className="form-checkbox">
             <input
-              type="datetime-local"
-              value={dataValidade}
-              onChange={(event) => setDataValidade(event.target.value)}
+              type="checkbox"
+              checked={includeInactiveOptions}
+              onChange={(event) => handleIncludeInactiveChange(event.target.checked)}
+              disabled={!duplicateSource || loadingDuplicate}
             />
+            <span>Incluir opções inativas (substitui as alterações feitas nas perguntas)</span>
           </label>
-          <label className="form-checkbox">
-            <input type="checkbox" checked={ativo} onChange={(event) => setAtivo(event.target.checked)} />
-            <span>Ativa ao publicar</span>
-          </label>
-        </form>
-      </section>
+          {(duplicateSource?.rules?.length ?? 0) > 0 && (
+            <p className="muted-text">
+              As regras de ramificação da pesquisa original não são copiadas: recrie-as na nova pesquisa depois de
+              salvar.
+            </p>
+          )}
+        </section>
+      )}
+
+      {importPreview && (
+        <section className="panel">
+          <div className="panel-header">
+            <div>
+              <p className="eyebrow">Importação</p>
+              <h2>{importPreview.fileName}</h2>
+              <p className="section-subtitle">
+                {importPreview.survey.titulo ? `${importPreview.survey.titulo} • ` : ''}
+                {importPreview.survey.questions.length}{' '}
+                {importPreview.survey.questions.length === 1 ? 'pergunta' : 'perguntas'} encontradas
+              </p>
+            </div>
+            <div className="hero-actions">
+              <button type="button" className="btn ghost" onClick={() => setImportPreview(null)}>
+                Descartar
+              </button>
+              <button type="button" className="btn primary" onClick={applyImport} disabled={importHasErrors}>
+                Usar no rascunho
+              </button>
+            </div>
+          </div>
+          {importPreview.issues.length > 0 && (
+            <ul className="simple-list">
+              {importPreview.issues.map((issue) => (
+                <li key={issue.message} className={issue.severity === 'error' ? 'error-text' : 'muted-text'}>
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="questions-list">
+            {importPreview.survey.questions.map((question, index) => (
+              <article key={`${question.ordem}-${index}`} className="question-card">
+                <div className="card-header">
+                  <div>
+                    <p className="eyebrow">#{question.ordem}</p>
+                    <h3>{question.texto || 'Sem texto'}</h3>
+                  </div>
+                </div>
+                <ul className="options-list">
+                  {question.options.length === 0 && <li className="option-row muted">Sem opções.</li>}
+                  {question.options.map((option, optionIndex) => (
+                    <li key={`${option.texto}-${optionIndex}`} className="option-row">
+                      <span>{option.texto}</span>
+                      <div className="option-row__spacer" />
+                      <span className={`status-pill ${option.ativo ? 'success' : 'neutral'}`}>
+                        {option.ativo ? 'Ativa' : 'Inativa'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </article>
+            ))}
+          </div>
+        </section>
+      )}
 
       <section className="panel">
         <div className="panel-header">
           <div>
             <p className="eyebrow">Perguntas</p>
             <p className="section-subtitle">
-              {questions.length} {questions.length === 1 ? 'pergunta' : 'perguntas'} configuradas
+              {draft.questions.length} {draft.questions.length === 1 ? 'pergunta' : 'perguntas'} configuradas
             </p>
           </div>
           <div className="hero-actions">
-            <button type="button" className="btn secondary" onClick={handleAddQuestion}>
+            <button type="button" className="btn secondary" onClick={() => dispatch({ type: 'addQuestion' })}>
               Adicionar pergunta
             </button>
           </div>
         </div>
 
-        <div className="questions-builder">
-          {questions.map((question, questionIndex) => (
-            <article key={question.id} className="question-card builder">
-              <div className="card-header">
-                <div>
-                  <p className="eyebrow">Pergunta #{questionIndex + 1}</p>
-                  <input
-                    className="input-unstyled"
-                    value={question.texto}
-                    onChange={(event) => updateQuestion(question.id, { texto: event.target.value })}
-                    placeholder="Digite o texto da pergunta"
-                    required
-                  />
-                </div>
-                {questions.length > 1 && (
-                  <button type="button" className="btn ghost small" onClick={() => handleRemoveQuestion(question.id)}>
-                    Remover
-                  </button>
-                )}
-              </div>
-              <label className="form-field">
-                <span>Ordem</span>
-                <input
-                  type="number"
-                  min={1}
-                  value={question.ordem}
-                  onChange={(event) =>
-                    updateQuestion(question.id, { ordem: Number(event.target.value) || questionIndex + 1 })
-                  }
-                />
-              </label>
-
-              <div className="options-builder">
-                <p className="eyebrow">Opções</p>
-                {question.options.map((option) => (
-                  <div key={option.id} className="option-builder-row">
-                    <input
-                      value={option.texto}
-                      onChange={(event) => updateOption(question.id, option.id, { texto: event.target.value })}
-                      placeholder="Texto da opção"
-                    />
-                    <label className="form-checkbox">
-                      <input
-                        type="checkbox"
-                        checked={option.ativo}
-                        onChange={(event) => updateOption(question.id, option.id, { ativo: event.target.checked })}
-                      />
-                      <span>Ativa</span>
-                    </label>
-                    {question.options.length > 1 && (
-                      <button
-                        type="button"
-                        className="btn ghost small"
-                        onClick={() => handleRemoveOption(question.id, option.id)}
-                      >
-                        Remover
-                      </button>
-                    )}
-                  </div>
-                ))}
-                <button type="button" className="btn secondary small" onClick={() => handleAddOption(question.id)}>
-                  Adicionar opção
-                </button>
-              </div>
-            </article>
-          ))}
-        </div>
+        <QuestionsBuilder questions={draft.questions} dispatch={dispatch} notice={builder.notice} />
       </section>
 
       <section className="panel">
@@ -401,12 +511,41 @@ const CreateSurveyPage = () => {
           <button type="button" className="btn ghost" onClick={() => navigate('/surveys')}>
             Cancelar
           </button>
-          <button type="button" className="btn primary" onClick={handleSubmit} disabled={isSaving}>
-            {isSaving ? 'Salvando...' : ativo ? 'Salvar e publicar' : 'Salvar'}
+          <button
+            type="button"
+            className="btn primary"
+            onClick={handleSubmit}
+            disabled={isSaving || hasPendingCreation}
+          >
+            {isSaving ? 'Salvando...' : draft.ativo ? 'Salvar e publicar' : 'Salvar'}
           </button>
         </div>
+        {canRollback && (
+          <label className="form-checkbox">
+            <input
+              type="checkbox"
+              checked={autoRollback}
+              onChange={(event) => setAutoRollback(event.target.checked)}
+              disabled={isSaving}
+            />
+            <span>Desfazer automaticamente se alguma etapa falhar</span>
+          </label>
+        )}
         {error && <p className="error-text">{error}</p>}
         {success && <p className="success-text">{success}</p>}
+        {hasPendingCreation && (
+          <p className="error-text">
+            A pesquisa foi criada parcialmente. Tente novamente a partir da falha ou desfaça a criação antes
+            de salvar outra vez.
+          </p>
+        )}
+        {creation && (
+          <CreationProgress
+            state={creation}
+            onRetry={() => void executeCreation(creation)}
+            onRollback={canRollback ? () => void handleRollback() : undefined}
+          />
+        )}
       </section>
     </Layout>
   )
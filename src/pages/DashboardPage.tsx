@@ -11,9 +11,10 @@ import {
   XAxis,
   YAxis,
 } from 'recharts'
+import ForbiddenState from '../components/ForbiddenState'
 import Layout from '../components/Layout'
 import MetricCard from '../components/MetricCard'
-import { dashboardApi, parseApiError, surveyApi } from '../services/api'
+import { dashboardApi, isForbiddenError, parseApiError, surveyApi } from '../services/api'
 import type { DashboardOverview, DashboardRankingItem, Survey } from '../types/api'
 import { toArray } from '../utils/response'
 
@@ -40,6 +41,7 @@ const DashboardPage = () => {
   const [surveys, setSurveys] = useState<Survey[]>([])
   const [overview, setOverview] = useState<DashboardOverview>()
   const [overviewError, setOverviewError] = useState<string>()
+  const [overviewForbidden, setOverviewForbidden] = useState(false)
   const [overviewLoading, setOverviewLoading] = useState(true)
   const [loadingSurveys, setLoadingSurveys] = useState(true)
   const [surveysError, setSurveysError] = useState<string>()
@@ -66,10 +68,12 @@ const DashboardPage = () => {
     const loadOverview = async () => {
       setOverviewLoading(true)
       setOverviewError(undefined)
+      setOverviewForbidden(false)
       try {
         const data = await dashboardApi.getOverview()
         setOverview(data)
       } catch (err) {
+        setOverviewForbidden(isForbiddenError(err))
         setOverviewError(parseApiError(err))
       } finally {
         setOverviewLoading(false)
@@ -133,6 +137,14 @@ const DashboardPage = () => {
     [overview?.rankings?.mostResponded, surveyTitleById],
   )
 
+  if (overviewForbidden) {
+    return (
+      <Layout title="Dashboard">
+        <ForbiddenState message={overviewError} />
+      </Layout>
+    )
+  }
+
   return (
     <Layout title="Dashboard">
       <section className="panel">
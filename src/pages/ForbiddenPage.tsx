@@ -0,0 +1,12 @@
+import ForbiddenState from '../components/ForbiddenState'
+import Layout from '../components/Layout'
+
+const ForbiddenPage = () => {
+  return (
+    <Layout title="Acesso restrito">
+      <ForbiddenState message="Seu perfil não tem acesso a esta página." />
+    </Layout>
+  )
+}
+
+export default ForbiddenPage
@@ -1,13 +1,17 @@
 import { type FormEvent, useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { Navigate, useNavigate, useSearchParams } from 'react-router-dom'
+import { useAuth } from '../hooks/useAuth'
 import { authApi, parseApiError } from '../services/api'
 
-type LoginPageProps = {
-  onLogin?: () => void
-}
+/** Só aceita caminhos internos, para o parâmetro não virar um redirecionamento aberto. */
+const resolveReturnTo = (value: string | null) =>
+  value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/login') ? value : '/'
 
-const LoginPage = ({ onLogin }: LoginPageProps) => {
+const LoginPage = () => {
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const returnTo = resolveReturnTo(searchParams.get('returnTo'))
+  const { user } = useAuth()
   const [username, setUsername] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState<string>()
@@ -19,8 +23,7 @@ const LoginPage = ({ onLogin }: LoginPageProps) => {
     setError(undefined)
     try {
       await authApi.login({ username: username.trim(), password })
-      onLogin?.()
-      navigate('/', { replace: true })
+      navigate(returnTo, { replace: true })
     } catch (err) {
       setError(parseApiError(err))
     } finally {
@@ -28,6 +31,11 @@ const LoginPage = ({ onLogin }: LoginPageProps) => {
     }
   }
 
+  // Sessão aberta em outra aba: segue para o destino sem pedir as credenciais de novo.
+  if (user && !isSubmitting && !authApi.isTokenExpired(authApi.getStoredToken())) {
+    return <Navigate to={returnTo} replace />
+  }
+
   return (
     <div className="auth-page">
       <div className="auth-panel">
@@ -35,6 +43,9 @@ const LoginPage = ({ onLogin }: LoginPageProps) => {
           <p className="eyebrow">Acesso ao painel</p>
           <h1>Entrar</h1>
           <p className="muted-text">Use suas credenciais administrativas para acessar o backoffice.</p>
+          {returnTo !== '/' && (
+            <p className="muted-text">Depois de entrar, você volta para a página que estava acessando.</p>
+          )}
         </div>
         <form className="form-vertical" onSubmit={handleSubmit}>
           <label className="form-field">
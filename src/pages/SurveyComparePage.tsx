@@ -0,0 +1,416 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import DateRangePicker from '../components/DateRangePicker'
+import Layout from '../components/Layout'
+import { dashboardApi, parseApiError, surveyApi } from '../services/api'
+import type { Survey, SurveyAudienceMetrics, SurveyDashboardMetrics } from '../types/api'
+import {
+  applyDateRangeParams,
+  parseDateRangeParams,
+  resolveDateRange,
+  type DateRangeSelection,
+} from '../utils/dateRange'
+import { buildTotals, type SurveyTotals } from '../utils/metrics'
+import { toArray } from '../utils/response'
+
+const MAX_COMPARED_SURVEYS = 6
+const SURVEY_LIST_SIZE = 500
+
+const chartColors = ['#0f8f53', '#f19953', '#8d6cab', '#df5f51', '#2ca66f', '#f3c567']
+
+const formatSeconds = (seconds?: number) => {
+  if (!seconds || Number.isNaN(seconds)) return '—'
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  if (mins <= 0) return `${secs}s`
+  return `${mins}m ${secs}s`
+}
+
+const formatRate = (value?: number) => (value !== undefined ? `${value.toFixed(1)}%` : '—')
+
+const formatTimeSeriesLabel = (label: string) => {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(label)
+  if (dateMatch) {
+    const [, year, month, day] = dateMatch
+    return `${day}/${month}/${year}`
+  }
+  return label
+}
+
+const parseIds = (value: string | null) =>
+  Array.from(
+    new Set(
+      (value ?? '')
+        .split(',')
+        .map((item) => Number(item.trim()))
+        .filter((item) => Number.isInteger(item) && item > 0),
+    ),
+  )
+
+type ComparedSurvey = {
+  id: number
+  metrics?: SurveyDashboardMetrics
+  audience?: SurveyAudienceMetrics
+  totals?: SurveyTotals
+  error?: string
+}
+
+const SurveyComparePage = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const idsParam = searchParams.get('ids')
+  const requestedIds = useMemo(() => parseIds(idsParam), [idsParam])
+  const selectedIds = useMemo(() => requestedIds.slice(0, MAX_COMPARED_SURVEYS), [requestedIds])
+  const droppedIds = requestedIds.slice(MAX_COMPARED_SURVEYS)
+  const rangeSelection = useMemo(() => parseDateRangeParams(searchParams), [searchParams])
+  const { from: rangeFrom, to: rangeTo } = useMemo(
+    () => resolveDateRange(rangeSelection),
+    [rangeSelection],
+  )
+  const [surveys, setSurveys] = useState<Survey[]>([])
+  const [surveysError, setSurveysError] = useState<string>()
+  const surveysTruncated = surveys.length >= SURVEY_LIST_SIZE
+  const [compared, setCompared] = useState<ComparedSurvey[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    const fetchSurveys = async () => {
+      try {
+        const data = await surveyApi.list({ size: SURVEY_LIST_SIZE, sort: 'id', direction: 'desc' })
+        setSurveys(toArray<Survey>(data))
+      } catch (err) {
+        setSurveysError(parseApiError(err))
+      }
+    }
+    void fetchSurveys()
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    const loadMetrics = async () => {
+      if (selectedIds.length === 0) {
+        setCompared([])
+        return
+      }
+      setLoading(true)
+      const params = { from: rangeFrom, to: rangeTo, includeDeleted: true }
+      const results = await Promise.all(
+        selectedIds.map(async (surveyId): Promise<ComparedSurvey> => {
+          try {
+            const [metrics, audience] = await Promise.all([
+              dashboardApi.getSurveyMetrics(surveyId, params),
+              dashboardApi.getSurveyAudience(surveyId, params),
+            ])
+            return { id: surveyId, metrics, audience, totals: buildTotals(metrics) }
+          } catch (err) {
+            return { id: surveyId, error: parseApiError(err) }
+          }
+        }),
+      )
+      if (cancelled) return
+      setCompared(results)
+      setLoading(false)
+    }
+    void loadMetrics()
+    return () => {
+      cancelled = true
+    }
+  }, [selectedIds, rangeFrom, rangeTo])
+
+  const surveyTitleById = useMemo(() => {
+    const map = new Map<number, string>()
+    surveys.forEach((survey) => map.set(survey.id, survey.titulo))
+    return map
+  }, [surveys])
+
+  const rows = useMemo(
+    () =>
+      compared.map((item) => ({
+        ...item,
+        titulo: surveyTitleById.get(item.id) ?? `Pesquisa #${item.id}`,
+      })),
+    [compared, surveyTitleById],
+  )
+
+  const loadedRows = useMemo(() => rows.filter((row) => row.totals), [rows])
+
+  const ratesChartData = useMemo(
+    () =>
+      loadedRows.map((row) => ({
+        name: row.titulo,
+        completionRate: Number((row.totals?.completionRate ?? 0).toFixed(1)),
+        abandonmentRate: Number((row.totals?.abandonmentRate ?? 0).toFixed(1)),
+      })),
+    [loadedRows],
+  )
+
+  const deviceLabels = useMemo(
+    () =>
+      Array.from(
+        new Set(loadedRows.flatMap((row) => row.audience?.deviceDistribution?.map((item) => item.label) ?? [])),
+      ),
+    [loadedRows],
+  )
+
+  const deviceChartData = useMemo(
+    () =>
+      loadedRows.map((row) => {
+        const distribution = row.audience?.deviceDistribution ?? []
+        const total = distribution.reduce((acc, item) => acc + (item.value ?? 0), 0)
+        const entry: Record<string, string | number> = { name: row.titulo }
+        deviceLabels.forEach((label) => {
+          const value = distribution.find((item) => item.label === label)?.value ?? 0
+          entry[label] = total > 0 ? Number(((value / total) * 100).toFixed(1)) : 0
+        })
+        return entry
+      }),
+    [deviceLabels, loadedRows],
+  )
+
+  const timeSeriesData = useMemo(() => {
+    const byLabel = new Map<string, Record<string, string | number>>()
+    loadedRows.forEach((row) => {
+      row.metrics?.responsesOverTime?.forEach((item) => {
+        const entry = byLabel.get(item.label) ?? { label: item.label }
+        entry[`survey-${row.id}`] = item.count
+        byLabel.set(item.label, entry)
+      })
+    })
+    return Array.from(byLabel.values())
+      .sort((a, b) => String(a.label).localeCompare(String(b.label)))
+      .map((entry) => ({ ...entry, label: formatTimeSeriesLabel(String(entry.label)) }))
+  }, [loadedRows])
+
+  const updateIds = (ids: number[]) => {
+    const next = new URLSearchParams(searchParams)
+    if (ids.length > 0) {
+      next.set('ids', ids.join(','))
+    } else {
+      next.delete('ids')
+    }
+    setSearchParams(next, { replace: true })
+  }
+
+  const toggleSurvey = (surveyId: number) => {
+    if (selectedIds.includes(surveyId)) {
+      updateIds(selectedIds.filter((item) => item !== surveyId))
+      return
+    }
+    if (selectedIds.length >= MAX_COMPARED_SURVEYS) return
+    updateIds([...selectedIds, surveyId])
+  }
+
+  const handleRangeChange = (selection: DateRangeSelection) => {
+    setSearchParams(applyDateRangeParams(searchParams, selection), { replace: true })
+  }
+
+  return (
+    <Layout title="Comparar pesquisas" subtitle="Métricas lado a lado">
+      <section className="panel">
+        <div className="panel-header">
+          <div>
+            <p className="eyebrow">Seleção</p>
+            <h2>
+              {selectedIds.length} de até {MAX_COMPARED_SURVEYS} pesquisas
+            </h2>
+          </div>
+          <div className="hero-actions">
+            <Link to="/surveys" className="btn ghost">
+              Voltar
+            </Link>
+          </div>
+        </div>
+        <DateRangePicker value={rangeSelection} onChange={handleRangeChange} disabled={loading} />
+        {surveysError && <p className="error-text">{surveysError}</p>}
+        {droppedIds.length > 0 && (
+          <p className="error-text">
+            Só é possível comparar {MAX_COMPARED_SURVEYS} pesquisas; ficaram de fora:{' '}
+            {droppedIds.map((id) => `#${id}`).join(', ')}.
+          </p>
+        )}
+        {surveysTruncated && (
+          <p className="muted-text">
+            Exibindo as {SURVEY_LIST_SIZE} pesquisas mais recentes; as mais antigas não aparecem nesta lista.
+          </p>
+        )}
+        <div className="compare-selector">
+          {surveys.map((survey) => (
+            <label key={survey.id} className="form-checkbox">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(survey.id)}
+                onChange={() => toggleSurvey(survey.id)}
+                disabled={!selectedIds.includes(survey.id) && selectedIds.length >= MAX_COMPARED_SURVEYS}
+              />
+              <span>
+                #{survey.id} {survey.titulo}
+              </span>
+            </label>
+          ))}
+        </div>
+      </section>
+
+      {selectedIds.length < 2 && (
+        <section className="panel">
+          <p className="muted-text">Selecione ao menos duas pesquisas para comparar.</p>
+        </section>
+      )}
+
+      {loading && <p>Carregando métricas...</p>}
+
+      {rows.length > 0 && (
+        <section className="panel">
+          <div className="panel-header">
+            <div>
+              <p className="eyebrow">Totais</p>
+              <h2>Resumo por pesquisa</h2>
+            </div>
+          </div>
+          <div className="table-wrapper compact">
+            <table className="simple-table">
+              <thead>
+                <tr>
+                  <th>Pesquisa</th>
+                  <th className="text-center">Respostas</th>
+                  <th className="text-center">Conclusões</th>
+                  <th className="text-center">Abandonos</th>
+                  <th className="text-center">Conclusão</th>
+                  <th className="text-center">Abandono</th>
+                  <th className="text-center">Tempo médio</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.id}>
+                    <td>
+                      <Link to={`/surveys/${row.id}/metrics`}>
+                        <strong>{row.titulo}</strong>
+                      </Link>
+                      {row.error && <p className="error-text">{row.error}</p>}
+                    </td>
+                    <td className="text-center">{row.totals?.responses ?? '—'}</td>
+                    <td className="text-center">{row.totals?.completions ?? '—'}</td>
+                    <td className="text-center">{row.totals?.abandons ?? '—'}</td>
+                    <td className="text-center">{formatRate(row.totals?.completionRate)}</td>
+                    <td className="text-center">{formatRate(row.totals?.abandonmentRate)}</td>
+                    <td className="text-center">{formatSeconds(row.totals?.avgResponseTimeSeconds)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {loadedRows.length > 0 && (
+        <section className="panel">
+          <div className="panel-header">
+            <div>
+              <p className="eyebrow">Comparativo</p>
+              <h2>Taxas e dispositivos</h2>
+            </div>
+          </div>
+          <div className="chart-grid">
+            <article className="chart-card">
+              <p className="chart-card__title">Conclusão x abandono</p>
+              <p className="chart-card__subtitle">Percentual por pesquisa</p>
+              <div className="chart-container chart-container--small">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={ratesChartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="name"
+                      tickFormatter={(value: string) => (value.length > 14 ? `${value.slice(0, 14)}…` : value)}
+                    />
+                    <YAxis unit="%" />
+                    <Tooltip formatter={(value: number) => `${value.toLocaleString('pt-BR')}%`} />
+                    <Legend />
+                    <Bar dataKey="completionRate" name="Conclusão" fill="#0f8f53" radius={[6, 6, 0, 0]} />
+                    <Bar dataKey="abandonmentRate" name="Abandono" fill="#df5f51" radius={[6, 6, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </article>
+            <article className="chart-card">
+              <p className="chart-card__title">Dispositivos</p>
+              <p className="chart-card__subtitle">Participação de cada dispositivo (%)</p>
+              {deviceLabels.length === 0 ? (
+                <p className="chart-empty">Sem dados</p>
+              ) : (
+                <div className="chart-container chart-container--small">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={deviceChartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis
+                        dataKey="name"
+                        tickFormatter={(value: string) => (value.length > 14 ? `${value.slice(0, 14)}…` : value)}
+                      />
+                      <YAxis unit="%" domain={[0, 100]} />
+                      <Tooltip formatter={(value: number) => `${value.toLocaleString('pt-BR')}%`} />
+                      <Legend />
+                      {deviceLabels.map((label, index) => (
+                        <Bar
+                          key={label}
+                          dataKey={label}
+                          stackId="devices"
+                          fill={chartColors[index % chartColors.length]}
+                        />
+                      ))}
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </article>
+          </div>
+        </section>
+      )}
+
+      {timeSeriesData.length > 0 && (
+        <section className="panel">
+          <div className="panel-header">
+            <div>
+              <p className="eyebrow">Evolução</p>
+              <h2>Respostas ao longo do tempo</h2>
+            </div>
+          </div>
+          <div className="chart-container">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={timeSeriesData} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" />
+                <YAxis />
+                <Tooltip formatter={(value: number) => value.toLocaleString('pt-BR')} />
+                <Legend />
+                {loadedRows.map((row, index) => (
+                  <Line
+                    key={row.id}
+                    type="monotone"
+                    dataKey={`survey-${row.id}`}
+                    name={row.titulo}
+                    stroke={chartColors[index % chartColors.length]}
+                    strokeWidth={2}
+                    connectNulls
+                    dot
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </section>
+      )}
+    </Layout>
+  )
+}
+
+export default SurveyComparePage
@@ -1,58 +1,72 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
-import type { FormEvent } from 'react'
-import { Link, useNavigate, useParams } from 'react-router-dom'
+import type { DragEvent } from 'react'
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import AuditLogPanel from '../components/AuditLogPanel'
 import ConfirmModal from '../components/ConfirmModal'
 import Layout from '../components/Layout'
 import MetricCard from '../components/MetricCard'
-import { optionApi, parseApiError, questionApi, surveyApi } from '../services/api'
-import type { SurveyStructure } from '../types/api'
+import SurveyPreview from '../components/SurveyPreview'
+import SurveyRulesEditor from '../components/SurveyRulesEditor'
+import SurveyStructureEditor from '../components/SurveyStructureEditor'
+import SurveyVersionHistory from '../components/SurveyVersionHistory'
+import TemplateNameModal from '../components/TemplateNameModal'
+import { useAuth } from '../hooks/useAuth'
+import { authApi, optionApi, parseApiError, questionApi, surveyApi, templateApi, versionApi } from '../services/api'
+import type { Option, Question, SurveyRule, SurveyStructure, SurveyVersion } from '../types/api'
+import { downloadBlob } from '../utils/export'
+import { getQuestionType, hasEditableOptions, questionTypeLabel } from '../utils/questionTypes'
+import { changedOrder, moveItem, renumber, sortByOrdem } from '../utils/reorder'
+import { MAX_ACTIVE_OPTIONS } from '../utils/surveyBuilder'
 
-const MAX_ACTIVE_OPTIONS = 5
+type DragItem = { kind: 'question'; id: number } | { kind: 'option'; id: number; questionId: number }
 
-const toDateValue = (value?: string | null) => {
-  if (!value) return ''
-  const parsed = new Date(value)
-  if (Number.isNaN(parsed.getTime())) return ''
-  const pad = (num: number) => num.toString().padStart(2, '0')
-  const year = parsed.getFullYear()
-  const month = pad(parsed.getMonth() + 1)
-  const day = pad(parsed.getDate())
-  return `${year}-${month}-${day}`
-}
+const isSameDragItem = (a: DragItem | null, b: DragItem) => a?.kind === b.kind && a.id === b.id
 
 const SurveyDetailPage = () => {
   const { id } = useParams()
   const surveyId = Number(id)
   const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { can } = useAuth()
+  const canEdit = can('survey:edit')
   const [survey, setSurvey] = useState<SurveyStructure>()
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string>()
   const [toast, setToast] = useState<{ type: 'error' | 'success'; message: string } | null>(null)
-  const [questionForm, setQuestionForm] = useState({ texto: '', ordem: 1 })
-  const [optionForm, setOptionForm] = useState({ questionId: '', texto: '', ativo: true })
-  const [feedback, setFeedback] = useState<string>()
   const [formError, setFormError] = useState<string>()
   const [deleteModalOpen, setDeleteModalOpen] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
-  const [surveyForm, setSurveyForm] = useState({
-    titulo: '',
-    descricao: '',
-    dataValidade: '',
-    ativo: true,
-  })
-  const [savingSurvey, setSavingSurvey] = useState(false)
-  const [surveySaveMessage, setSurveySaveMessage] = useState<string>()
-  const [editingQuestion, setEditingQuestion] = useState<{ id: number; texto: string; ordem: number } | null>(null)
-  const [editingOption, setEditingOption] = useState<{
-    id: number
-    questionId: number
-    texto: string
-    ativo: boolean
-  } | null>(null)
+  const [editingStructure, setEditingStructure] = useState(false)
   const [savingOptionId, setSavingOptionId] = useState<number | null>(null)
-  const [newOptionText, setNewOptionText] = useState<Record<number, string>>({})
   const [exporting, setExporting] = useState(false)
-  const loadSurvey = useCallback(async () => {
+  const [templateModalOpen, setTemplateModalOpen] = useState(false)
+  const [dragItem, setDragItem] = useState<DragItem | null>(null)
+  const [dropTarget, setDropTarget] = useState<DragItem | null>(null)
+  const [reordering, setReordering] = useState(false)
+  const [draftRules, setDraftRules] = useState<SurveyRule[]>()
+  /** Muda a cada recarga da estrutura, para o editor de regras descartar o rascunho antigo. */
+  const [structureRevision, setStructureRevision] = useState(0)
+  const [previewOpen, setPreviewOpen] = useState(searchParams.get('preview') === '1')
+  /** Rascunho do editor de estrutura em pré-visualização; sem ele, vale a estrutura salva. */
+  const [previewStructure, setPreviewStructure] = useState<SurveyStructure>()
+  const [savingTemplate, setSavingTemplate] = useState(false)
+  const [versions, setVersions] = useState<SurveyVersion[]>([])
+  const [versionError, setVersionError] = useState<string>()
+
+  const recordVersion = useCallback(async (structure: SurveyStructure, reason?: string) => {
+    const existing = await versionApi.list(structure.id)
+    // Sem motivo, a estrutura veio do servidor: ou é o primeiro registro, ou alguém mudou por outro caminho.
+    const fallback = existing.length === 0 ? 'Primeira versão registrada' : 'Alterada fora desta tela'
+    try {
+      await versionApi.record(structure, reason ?? fallback, authApi.getCurrentUser()?.username)
+      setVersionError(undefined)
+    } catch (err) {
+      setVersionError(`A versão não foi registrada: ${parseApiError(err)}`)
+    }
+    setVersions(await versionApi.list(structure.id))
+  }, [])
+
+  const loadSurvey = useCallback(async (versionReason?: string) => {
     if (!surveyId) return
     setLoading(true)
     setError(undefined)
@@ -62,12 +76,9 @@ const SurveyDetailPage = () => {
         includeInactiveOptions: true,
       })
       setSurvey(structureData)
-      setSurveyForm({
-        titulo: structureData.titulo,
-        descricao: structureData.descricao ?? '',
-        dataValidade: toDateValue(structureData.dataValidade),
-        ativo: structureData.ativo,
-      })
+      setDraftRules(undefined)
+      setStructureRevision((prev) => prev + 1)
+      void recordVersion(structureData, versionReason)
     } catch (err) {
       const msg = parseApiError(err)
       setError(msg)
@@ -75,23 +86,20 @@ const SurveyDetailPage = () => {
     } finally {
       setLoading(false)
     }
-  }, [surveyId, setToast])
+  }, [surveyId, setToast, recordVersion])
 
-  const saveQuestionEdit = async () => {
-    if (!editingQuestion || !surveyId) return
-    setFormError(undefined)
-    try {
-      await questionApi.update(editingQuestion.id, {
-        texto: editingQuestion.texto.trim(),
-        ordem: editingQuestion.ordem,
-        surveyId,
-      })
-      setEditingQuestion(null)
-      await loadSurvey()
-    } catch (err) {
-      const msg = parseApiError(err)
-      setFormError(msg)
-      setToast({ type: 'error', message: msg })
+  const openPreview = (structure?: SurveyStructure) => {
+    setPreviewStructure(structure)
+    setPreviewOpen(true)
+  }
+
+  const closePreview = () => {
+    setPreviewOpen(false)
+    setPreviewStructure(undefined)
+    if (searchParams.has('preview')) {
+      const next = new URLSearchParams(searchParams)
+      next.delete('preview')
+      setSearchParams(next, { replace: true })
     }
   }
 
@@ -101,14 +109,7 @@ const SurveyDetailPage = () => {
     setToast(null)
     try {
       const { blob, filename } = await surveyApi.export(surveyId, { includeDeleted: true })
-      const url = URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.href = url
-      link.download = filename || `survey-${surveyId}.xlsx`
-      document.body.appendChild(link)
-      link.click()
-      link.remove()
-      URL.revokeObjectURL(url)
+      downloadBlob(blob, filename || `survey-${surveyId}.xlsx`)
       setToast({ type: 'success', message: 'Exportação iniciada.' })
     } catch (err) {
       const msg = parseApiError(err)
@@ -118,36 +119,41 @@ const SurveyDetailPage = () => {
     }
   }
 
-  const saveOptionEdit = async () => {
-    if (!editingOption || !editingOption.questionId) return
-    setFormError(undefined)
+  const saveAsTemplate = async (nome: string) => {
+    if (!survey) return
+    setSavingTemplate(true)
     try {
-      await optionApi.update(editingOption.id, {
-        texto: editingOption.texto.trim(),
-        ativo: editingOption.ativo,
-        questionId: editingOption.questionId,
-      })
-      setEditingOption(null)
-      await loadSurvey()
+      await templateApi.create(templateApi.fromStructure(survey, nome))
+      setTemplateModalOpen(false)
+      const rulesNote = survey.rules?.length ? ' As regras de ramificação não são copiadas para templates.' : ''
+      setToast({ type: 'success', message: `Template "${nome}" salvo.${rulesNote}` })
     } catch (err) {
-      const msg = parseApiError(err)
-      setFormError(msg)
-      setToast({ type: 'error', message: msg })
+      setToast({ type: 'error', message: parseApiError(err) })
+    } finally {
+      setSavingTemplate(false)
     }
   }
 
   const toggleOptionActive = async (optionId: number, questionId: number, current: boolean) => {
+    const question = survey?.questions.find((q) => q.id === questionId)
+    const activeCount = (question?.options ?? []).filter((option) => option.ativo).length
+    if (!current && hasEditableOptions(getQuestionType(question ?? {})) && activeCount >= MAX_ACTIVE_OPTIONS) {
+      setFormError(
+        `Máximo de ${MAX_ACTIVE_OPTIONS} opções ativas por pergunta. Desative uma opção antes de ativar outra.`,
+      )
+      return
+    }
     setSavingOptionId(optionId)
     setFormError(undefined)
     try {
+      const option = question?.options?.find((opt) => opt.id === optionId)
       await optionApi.update(optionId, {
-        texto: survey?.questions
-          .find((q) => q.id === questionId)
-          ?.options?.find((opt) => opt.id === optionId)?.texto ?? '',
+        texto: option?.texto ?? '',
         ativo: !current,
+        ordem: option?.ordem,
         questionId,
       })
-      await loadSurvey()
+      await loadSurvey(current ? 'Opção desativada' : 'Opção ativada')
     } catch (err) {
       const msg = parseApiError(err)
       setFormError(msg)
@@ -157,121 +163,118 @@ const SurveyDetailPage = () => {
     }
   }
 
-  const handleInlineAddOption = async (questionId: number) => {
-    const text = (newOptionText[questionId] ?? '').trim()
-    if (!text) {
-      setFormError('Informe um texto para a opção.')
-      return
-    }
-    const question = survey?.questions.find((q) => q.id === questionId)
-    if (question) {
-      const activeCount = (question.options ?? []).filter((option) => option.ativo).length
-      if (activeCount >= MAX_ACTIVE_OPTIONS) {
-        setFormError(
-          `Máximo de ${MAX_ACTIVE_OPTIONS} opções ativas por pergunta. Desative uma opção antes de ativar outra.`,
+  const persistQuestionOrder = async (reordered: Question[]) => {
+    if (!survey || !surveyId) return
+    const previous = survey
+    const changed = changedOrder(previous.questions, reordered)
+    if (changed.length === 0) return
+    setSurvey({ ...previous, questions: reordered })
+    setReordering(true)
+    try {
+      await questionApi.reorder(surveyId, changed)
+      setToast({ type: 'success', message: 'Ordem das perguntas atualizada.' })
+      void recordVersion({ ...previous, questions: reordered }, 'Perguntas reordenadas')
+    } catch (err) {
+      setSurvey(previous)
+      const changedIds = new Set(changed.map((question) => question.id))
+      // Parte do lote pode ter sido gravada; devolve essas perguntas à ordem anterior.
+      await questionApi
+        .reorder(
+          surveyId,
+          previous.questions.filter((question) => changedIds.has(question.id)),
         )
-        return
-      }
+        .catch(() => undefined)
+      setToast({ type: 'error', message: `Não foi possível reordenar: ${parseApiError(err)}` })
+    } finally {
+      setReordering(false)
     }
-    setFormError(undefined)
+  }
+
+  const persistOptionOrder = async (questionId: number, reordered: Option[]) => {
+    if (!survey) return
+    const previous = survey
+    const currentOptions = sortByOrdem(previous.questions.find((question) => question.id === questionId)?.options ?? [])
+    const changed = changedOrder(currentOptions, reordered)
+    if (changed.length === 0) return
+    const next = {
+      ...previous,
+      questions: previous.questions.map((question) =>
+        question.id === questionId ? { ...question, options: reordered } : question,
+      ),
+    }
+    setSurvey(next)
+    setReordering(true)
     try {
-      await optionApi.create({
-        texto: text,
-        ativo: true,
-        questionId,
-      })
-      setNewOptionText((prev) => ({ ...prev, [questionId]: '' }))
-      await loadSurvey()
+      await optionApi.reorder(changed)
+      setToast({ type: 'success', message: 'Ordem das opções atualizada.' })
+      void recordVersion(next, 'Opções reordenadas')
     } catch (err) {
-      const msg = parseApiError(err)
-      setFormError(msg)
-      setToast({ type: 'error', message: msg })
+      setSurvey(previous)
+      const changedIds = new Set(changed.map((option) => option.id))
+      await optionApi
+        .reorder(currentOptions.filter((option) => changedIds.has(option.id)))
+        .catch(() => undefined)
+      setToast({ type: 'error', message: `Não foi possível reordenar: ${parseApiError(err)}` })
+    } finally {
+      setReordering(false)
     }
   }
 
-  useEffect(() => {
-    void loadSurvey()
-  }, [loadSurvey])
+  const startDrag = (event: DragEvent, item: DragItem) => {
+    event.stopPropagation()
+    event.dataTransfer.effectAllowed = 'move'
+    event.dataTransfer.setData('text/plain', `${item.kind}-${item.id}`)
+    setDragItem(item)
+  }
 
-  const handleQuestionSubmit = async (event: FormEvent) => {
+  const handleDragOver = (event: DragEvent, target: DragItem) => {
+    if (!dragItem || dragItem.kind !== target.kind) return
+    if (dragItem.kind === 'option' && target.kind === 'option' && dragItem.questionId !== target.questionId) return
     event.preventDefault()
-    setFeedback(undefined)
-    setFormError(undefined)
-    try {
-      await questionApi.create({
-        texto: questionForm.texto.trim(),
-        ordem: Number(questionForm.ordem),
-        surveyId,
-      })
-      setQuestionForm({ texto: '', ordem: 1 })
-      setFeedback('Pergunta adicionada com sucesso.')
-      await loadSurvey()
-    } catch (err) {
-      const msg = parseApiError(err)
-      setFormError(msg)
-      setToast({ type: 'error', message: msg })
-    }
+    event.stopPropagation()
+    if (!isSameDragItem(dropTarget, target)) setDropTarget(target)
   }
 
-  const handleOptionSubmit = async (event: FormEvent) => {
+  const handleDrop = (event: DragEvent, target: DragItem) => {
     event.preventDefault()
-    setFeedback(undefined)
-    setFormError(undefined)
-    const parsedQuestionId = Number(optionForm.questionId)
-    if (!parsedQuestionId) {
-      setFormError('Selecione uma pergunta para adicionar a opção.')
+    event.stopPropagation()
+    const source = dragItem
+    setDragItem(null)
+    setDropTarget(null)
+    if (!survey || !source || source.kind !== target.kind || source.id === target.id) return
+    if (source.kind === 'question') {
+      const fromIndex = survey.questions.findIndex((question) => question.id === source.id)
+      const toIndex = survey.questions.findIndex((question) => question.id === target.id)
+      void persistQuestionOrder(renumber(moveItem(survey.questions, fromIndex, toIndex)))
       return
     }
-    const targetQuestion = survey?.questions.find((question) => question.id === parsedQuestionId)
-    if (targetQuestion && optionForm.ativo) {
-      const activeCount = (targetQuestion.options ?? []).filter((option) => option.ativo).length
-      if (activeCount >= MAX_ACTIVE_OPTIONS) {
-        setFormError(
-          `Máximo de ${MAX_ACTIVE_OPTIONS} opções ativas por pergunta. Desative uma opção antes de ativar outra.`,
-        )
-        return
-      }
-    }
-    try {
-      await optionApi.create({
-        texto: optionForm.texto.trim(),
-        ativo: optionForm.ativo,
-        questionId: parsedQuestionId,
-      })
-      setOptionForm({ questionId: optionForm.questionId, texto: '', ativo: true })
-      setFeedback('Opção adicionada com sucesso.')
-      await loadSurvey()
-    } catch (err) {
-      const msg = parseApiError(err)
-      setFormError(msg)
-      setToast({ type: 'error', message: msg })
-    }
+    if (target.kind !== 'option' || source.questionId !== target.questionId) return
+    const options = sortByOrdem(survey.questions.find((question) => question.id === source.questionId)?.options ?? [])
+    const fromIndex = options.findIndex((option) => option.id === source.id)
+    const toIndex = options.findIndex((option) => option.id === target.id)
+    void persistOptionOrder(source.questionId, renumber(moveItem(options, fromIndex, toIndex)))
   }
 
-  const saveSurvey = async () => {
-    if (!surveyId) return
-    setSavingSurvey(true)
-    setSurveySaveMessage(undefined)
-    setFormError(undefined)
-    try {
-      await surveyApi.update(surveyId, {
-        titulo: surveyForm.titulo.trim(),
-        descricao: surveyForm.descricao.trim() || null,
-        ativo: surveyForm.ativo,
-        dataValidade: surveyForm.dataValidade
-          ? new Date(`${surveyForm.dataValidade}T23:59:00`).toISOString()
-          : null,
-      })
-      setSurveySaveMessage('Pesquisa atualizada com sucesso.')
-      setToast({ type: 'success', message: 'Pesquisa atualizada com sucesso.' })
-      await loadSurvey()
-    } catch (err) {
-      const msg = parseApiError(err)
-      setFormError(msg)
-      setToast({ type: 'error', message: msg })
-    } finally {
-      setSavingSurvey(false)
-    }
+  const handleDragEnd = () => {
+    setDragItem(null)
+    setDropTarget(null)
+  }
+
+  const dragClassName = (item: DragItem) =>
+    `${isSameDragItem(dragItem, item) ? ' dragging' : ''}${isSameDragItem(dropTarget, item) ? ' drop-target' : ''}`
+
+  useEffect(() => {
+    void loadSurvey()
+  }, [loadSurvey])
+
+  const handleStructureSaved = (saveError?: string) => {
+    setEditingStructure(false)
+    setToast(
+      saveError
+        ? { type: 'error', message: saveError }
+        : { type: 'success', message: 'Pesquisa atualizada com sucesso.' },
+    )
+    void loadSurvey(saveError ? 'Edição parcial da estrutura' : 'Estrutura editada')
   }
 
   const handleDelete = async () => {
@@ -343,78 +346,66 @@ const SurveyDetailPage = () => {
         onConfirm={handleDelete}
         confirmLoading={isDeleting}
       />
+      <TemplateNameModal
+        key={templateModalOpen ? 'open' : 'closed'}
+        open={templateModalOpen}
+        title="Salvar como template"
+        initialName={survey?.titulo}
+        confirmLoading={savingTemplate}
+        onConfirm={(nome) => void saveAsTemplate(nome)}
+        onCancel={() => setTemplateModalOpen(false)}
+      />
+      {survey && (
+        <SurveyPreview
+          key={previewOpen ? 'open' : 'closed'}
+          open={previewOpen}
+          survey={{ ...(previewStructure ?? survey), rules: draftRules ?? survey.rules }}
+          onClose={closePreview}
+        />
+      )}
       <section className="panel hero-panel">
         <div className="panel-header">
           <div>
             <p className="eyebrow">Pesquisa #{survey?.id}</p>
-            <input
-              className="input-title"
-              value={surveyForm.titulo}
-              onChange={(event) =>
-                setSurveyForm((prev) => ({
-                  ...prev,
-                  titulo: event.target.value,
-                }))
-              }
-              placeholder="Título da pesquisa"
-              disabled={savingSurvey}
-            />
-            <textarea
-              className="textarea-unstyled"
-              value={surveyForm.descricao}
-              onChange={(event) =>
-                setSurveyForm((prev) => ({
-                  ...prev,
-                  descricao: event.target.value,
-                }))
-              }
-              placeholder="Descrição da pesquisa"
-              rows={2}
-              disabled={savingSurvey}
-            />
-            <div className="validity-inline">
-              <label className="form-field">
-                <span>Validade</span>
-                <input
-                  type="date"
-                  value={surveyForm.dataValidade}
-                  onChange={(event) =>
-                    setSurveyForm((prev) => ({
-                      ...prev,
-                      dataValidade: event.target.value,
-                    }))
-                  }
-                  className="input-validity"
-                  disabled={savingSurvey}
-                />
-              </label>
-            </div>
+            <h2>{survey?.titulo}</h2>
+            {survey?.descricao && <p className="section-subtitle">{survey.descricao}</p>}
+            {survey?.dataValidade && (
+              <p className="muted-text">Válida até {new Date(survey.dataValidade).toLocaleString('pt-BR')}</p>
+            )}
           </div>
           <div className="hero-actions">
             <Link to="/surveys" className="btn ghost">
               Voltar
             </Link>
-            {surveyId && (
+            {surveyId && can('metrics:view') && (
               <Link to={`/surveys/${surveyId}/metrics`} className="btn secondary">
                 Métricas
               </Link>
             )}
-            <button className="btn primary" type="button" onClick={saveSurvey} disabled={savingSurvey}>
-              {savingSurvey ? 'Salvando...' : 'Salvar alterações'}
-            </button>
-            <button
-              className="btn danger"
-              type="button"
-              onClick={() => setDeleteModalOpen(true)}
-              disabled={isDeleting || savingSurvey}
-            >
-              Remover
-            </button>
+            {surveyId && can('survey:create') && (
+              <Link to={`/surveys/new?duplicate=${surveyId}`} className="btn secondary">
+                Duplicar
+              </Link>
+            )}
+            {canEdit && survey && !editingStructure && (
+              <button className="btn primary" type="button" onClick={() => setEditingStructure(true)}>
+                Editar estrutura
+              </button>
+            )}
+            {can('survey:delete') && (
+              <button
+                className="btn danger"
+                type="button"
+                onClick={() => setDeleteModalOpen(true)}
+                disabled={isDeleting}
+              >
+                Remover
+              </button>
+            )}
           </div>
         </div>
         {loading && <p>Carregando dados...</p>}
         {error && <p className="error-text">{error}</p>}
-        {surveySaveMessage && <p className="success-text">{surveySaveMessage}</p>}
         {survey && !loading && !error && (
           <>
             <div className="metrics-grid">
@@ -453,114 +444,17 @@ const SurveyDetailPage = () => {
         </div>
       )}
 
-      {survey && (
-        <section className="panel grid-two-columns">
-          <form className="form-vertical" onSubmit={handleQuestionSubmit}>
-            <div className="panel-header">
-              <div>
-                    <p className="eyebrow">Perguntas</p>
-                    <h2>Novo bloco</h2>
-                  </div>
-                </div>
-            <label className="form-field">
-              <span>Texto</span>
-              <textarea
-                required
-                minLength={3}
-                value={questionForm.texto}
-                onChange={(event) =>
-                  setQuestionForm((prev) => ({
-                    ...prev,
-                    texto: event.target.value,
-                  }))
-                }
-                placeholder="Qual sua faixa etária?"
-              />
-            </label>
-            <label className="form-field">
-              <span>Ordem</span>
-              <input
-                required
-                type="number"
-                min={1}
-                value={questionForm.ordem}
-                onChange={(event) =>
-                  setQuestionForm((prev) => ({
-                    ...prev,
-                    ordem: Number(event.target.value),
-                  }))
-                }
-              />
-            </label>
-            <button className="btn primary" type="submit">
-              Adicionar pergunta
-            </button>
-          </form>
-
-          <form className="form-vertical" onSubmit={handleOptionSubmit}>
-            <div className="panel-header">
-              <div>
-                <p className="eyebrow">Opções</p>
-                <h2>Resposta vinculada</h2>
-              </div>
-            </div>
-            <label className="form-field">
-              <span>Pergunta</span>
-              <select
-                required
-                value={optionForm.questionId}
-                onChange={(event) =>
-                  setOptionForm((prev) => ({
-                    ...prev,
-                    questionId: event.target.value,
-                  }))
-                }
-              >
-                <option value="">Selecione</option>
-                {survey.questions.map((question) => (
-                  <option key={question.id} value={question.id}>
-                    #{question.ordem} - {question.texto}
-                  </option>
-                ))}
-              </select>
-            </label>
-            <label className="form-field">
-              <span>Texto</span>
-              <input
-                required
-                value={optionForm.texto}
-                onChange={(event) =>
-                  setOptionForm((prev) => ({
-                    ...prev,
-                    texto: event.target.value,
-                  }))
-                }
-                placeholder="Entre 18 e 25 anos"
-              />
-            </label>
-            <label className="form-checkbox">
-              <input
-                type="checkbox"
-                checked={optionForm.ativo}
-                onChange={(event) =>
-                  setOptionForm((prev) => ({
-                    ...prev,
-                    ativo: event.target.checked,
-                  }))
-                }
-              />
-              <span>Ativa</span>
-            </label>
-            <button className="btn secondary" type="submit">
-              Adicionar opção
-            </button>
-            {formError && <p className="error-text">{formError}</p>}
-            {feedback && <p className="success-text">{feedback}</p>}
-          </form>
-        </section>
+      {survey && editingStructure && (
+        <SurveyStructureEditor
+          key={survey.id}
+          survey={survey}
+          onCancel={() => setEditingStructure(false)}
+          onSaved={handleStructureSaved}
+          onPreview={openPreview}
+        />
       )}
 
-      {survey && (
+      {survey && !editingStructure && (
         <section className="panel">
           <div className="panel-header">
             <div>
@@ -568,184 +462,136 @@ const SurveyDetailPage = () => {
               <h2>Perguntas e opções</h2>
             </div>
             <div className="hero-actions">
-              <button className="btn ghost" type="button">
-                Reordenar
+              <button className="btn ghost" type="button" onClick={() => openPreview()}>
+                Pré-visualizar
               </button>
+              {can('template:manage') && (
+                <button
+                  className="btn ghost"
+                  type="button"
+                  onClick={() => setTemplateModalOpen(true)}
+                  disabled={savingTemplate}
+                >
+                  Salvar como template
+                </button>
+              )}
               <button className="btn secondary" type="button" onClick={handleExport} disabled={exporting}>
                 Exportar
               </button>
             </div>
           </div>
+          {formError && <p className="error-text">{formError}</p>}
           <div className="questions-list">
             {survey.questions.length === 0 && <p>Nenhuma pergunta cadastrada.</p>}
+            {survey.questions.length > 1 && canEdit && (
+              <p className="muted-text">
+                {reordering ? 'Salvando nova ordem...' : 'Arraste pelo ⠿ para reordenar perguntas e opções.'}
+              </p>
+            )}
             {survey.questions.map((question) => (
-              <article key={question.id} className="question-card">
+              <article
+                key={question.id}
+                className={`question-card${dragClassName({ kind: 'question', id: question.id })}`}
+                onDragOver={(event) => handleDragOver(event, { kind: 'question', id: question.id })}
+                onDrop={(event) => handleDrop(event, { kind: 'question', id: question.id })}
+              >
                 <div className="card-header">
                   <div>
-                    <p className="eyebrow">#{question.ordem}</p>
-                    {editingQuestion?.id === question.id ? (
-                      <>
-                        <input
-                          className="input-unstyled"
-                          value={editingQuestion.texto}
-                          onChange={(event) =>
-                            setEditingQuestion((prev) =>
-                              prev
-                                ? {
-                                    ...prev,
-                                    texto: event.target.value,
-                                  }
-                                : prev,
-                            )
-                          }
-                        />
-                        <label className="form-field" style={{ marginTop: '0.5rem' }}>
-                          <span>Ordem</span>
-                          <input
-                            type="number"
-                            min={1}
-                            max={999}
-                            style={{ maxWidth: '100px' }}
-                            value={editingQuestion.ordem}
-                            onChange={(event) =>
-                              setEditingQuestion((prev) =>
-                                prev
-                                  ? {
-                                      ...prev,
-                                      ordem: Number(event.target.value) || question.ordem,
-                                    }
-                                  : prev,
-                              )
-                            }
-                          />
-                        </label>
-                      </>
-                    ) : (
-                      <h3>{question.texto}</h3>
-                    )}
-                  </div>
-                  <div className="card-actions">
-                    {editingQuestion?.id === question.id ? (
-                      <>
-                        <button className="btn secondary small" type="button" onClick={saveQuestionEdit}>
-                          Salvar
-                        </button>
-                        <button
-                          className="btn ghost small"
-                          type="button"
-                          onClick={() => setEditingQuestion(null)}
-                        >
-                          Cancelar
-                        </button>
-                      </>
-                    ) : (
-                      <button
-                        className="btn ghost small"
-                        type="button"
-                        onClick={() =>
-                          setEditingQuestion({ id: question.id, texto: question.texto, ordem: question.ordem })
-                        }
+                    <p className="eyebrow">
+                      <span
+                        className="drag-handle"
+                        draggable={canEdit && !reordering}
+                        onDragStart={(event) => startDrag(event, { kind: 'question', id: question.id })}
+                        onDragEnd={handleDragEnd}
+                        title="Arraste para reordenar a pergunta"
+                        aria-label="Arrastar pergunta"
                       >
-                        Editar
-                      </button>
-                    )}
+                        ⠿
+                      </span>
+                      #{question.ordem}
+                    </p>
+                    <h3>{question.texto}</h3>
+                    <span className="status-pill neutral">{questionTypeLabel(question.tipo)}</span>
                   </div>
                 </div>
                 <ul className="options-list">
                   {(question.options ?? []).length === 0 && (
-                    <li className="option-row muted">Sem opções cadastradas.</li>
-                  )}
-                  {(question.options ?? []).map((option) => (
-                    <li key={option.id} className="option-row">
-                      {editingOption?.id === option.id ? (
-                        <>
-                          <input
-                            value={editingOption.texto}
-                            onChange={(event) =>
-                              setEditingOption((prev) =>
-                                prev ? { ...prev, texto: event.target.value } : prev,
-                              )
-                            }
-                          />
-                          <label className="form-checkbox" style={{ margin: 0 }}>
-                            <input
-                              type="checkbox"
-                              checked={editingOption.ativo}
-                              onChange={(event) =>
-                                setEditingOption((prev) =>
-                                  prev ? { ...prev, ativo: event.target.checked } : prev,
-                              )
-                            }
-                          />
-                          <span>Ativa</span>
-                        </label>
-                          <div className="option-row__spacer" />
-                          <div className="table-actions">
-                            <button className="btn secondary small" type="button" onClick={saveOptionEdit}>
-                              Salvar
-                            </button>
-                            <button
-                              className="btn ghost small"
-                              type="button"
-                              onClick={() => setEditingOption(null)}
-                            >
-                              Cancelar
-                            </button>
-                          </div>
-                        </>
-                      ) : (
-                        <>
-                          <span>{option.texto}</span>
-                          <div className="option-row__spacer" />
-                          <button
-                            className={`status-pill ${option.ativo ? 'success' : 'neutral'}`}
-                            type="button"
-                            onClick={() => toggleOptionActive(option.id, question.id, option.ativo)}
-                            disabled={savingOptionId === option.id}
-                          >
-                            {savingOptionId === option.id ? '...' : option.ativo ? 'Ativa' : 'Inativa'}
-                          </button>
-                          <button
-                            className="btn ghost small"
-                            type="button"
-                            onClick={() =>
-                              setEditingOption({
-                                id: option.id,
-                                questionId: question.id,
-                                texto: option.texto,
-                                ativo: option.ativo,
-                              })
-                            }
-                          >
-                            Editar
-                          </button>
-                        </>
-                      )}
+                    <li className="option-row muted">
+                      {getQuestionType(question) === 'TEXT'
+                        ? 'Resposta aberta: esta pergunta não tem opções.'
+                        : 'Sem opções cadastradas.'}
                     </li>
-                  ))}
-                  <li className="option-row">
-                    <input
-                      value={newOptionText[question.id] ?? ''}
-                      onChange={(event) =>
-                        setNewOptionText((prev) => ({ ...prev, [question.id]: event.target.value }))
+                  )}
+                  {sortByOrdem(question.options ?? []).map((option) => (
+                    <li
+                      key={option.id}
+                      className={`option-row${dragClassName({ kind: 'option', id: option.id, questionId: question.id })}`}
+                      onDragOver={(event) =>
+                        handleDragOver(event, { kind: 'option', id: option.id, questionId: question.id })
                       }
-                      placeholder="Nova opção"
-                    />
-                    <div className="option-row__spacer" />
-                    <button
-                      className="btn secondary small"
-                      type="button"
-                      onClick={() => void handleInlineAddOption(question.id)}
+                      onDrop={(event) => handleDrop(event, { kind: 'option', id: option.id, questionId: question.id })}
                     >
-                      Adicionar
-                    </button>
-                  </li>
+                      <span
+                        className="drag-handle"
+                        draggable={canEdit && !reordering}
+                        onDragStart={(event) =>
+                          startDrag(event, { kind: 'option', id: option.id, questionId: question.id })
+                        }
+                        onDragEnd={handleDragEnd}
+                        title="Arraste para reordenar a opção"
+                        aria-label="Arrastar opção"
+                      >
+                        ⠿
+                      </span>
+                      <span>{option.texto}</span>
+                      <div className="option-row__spacer" />
+                      <button
+                        className={`status-pill ${option.ativo ? 'success' : 'neutral'}`}
+                        type="button"
+                        onClick={() => toggleOptionActive(option.id, question.id, option.ativo)}
+                        disabled={savingOptionId === option.id || !canEdit}
+                      >
+                        {savingOptionId === option.id ? '...' : option.ativo ? 'Ativa' : 'Inativa'}
+                      </button>
+                    </li>
+                  ))}
                 </ul>
               </article>
             ))}
           </div>
         </section>
       )}
+
+      {survey && (
+        <SurveyRulesEditor
+          key={`${survey.id}-${structureRevision}`}
+          survey={survey}
+          onSaved={(rules) => {
+            setSurvey((prev) => (prev ? { ...prev, rules } : prev))
+            void recordVersion({ ...survey, rules }, 'Regras de ramificação atualizadas')
+          }}
+          onDraftChange={setDraftRules}
+          readOnly={!canEdit}
+        />
+      )}
+
+      {survey && (
+        <SurveyVersionHistory
+          survey={survey}
+          versions={versions}
+          recordError={versionError}
+          canRestore={canEdit}
+          onRestored={(version, partial) =>
+            void loadSurvey(
+              partial
+                ? `Restauração parcial da versão ${version.number}`
+                : `Restaurada a partir da versão ${version.number}`,
+            )
+          }
+        />
+      )}
+
+      {survey && can('audit:view') && <AuditLogPanel surveyId={survey.id} />}
     </Layout>
   )
 }
@@ -1,5 +1,5 @@
 import { useEffect, useMemo, useState } from 'react'
-import { Link, useParams } from 'react-router-dom'
+import { Link, useParams, useSearchParams } from 'react-router-dom'
 import {
   Bar,
   BarChart,
@@ -15,15 +15,34 @@ import {
   XAxis,
   YAxis,
 } from 'recharts'
+import DateRangePicker from '../components/DateRangePicker'
+import ForbiddenState from '../components/ForbiddenState'
 import Layout from '../components/Layout'
 import MetricCard from '../components/MetricCard'
-import { dashboardApi, parseApiError, surveyApi } from '../services/api'
+import ScaleAnalyticsPanel from '../components/ScaleAnalyticsPanel'
+import { dashboardApi, isForbiddenError, parseApiError, surveyApi } from '../services/api'
 import type {
   DashboardBreakdownItem,
+  QuestionType,
   SurveyAudienceMetrics,
   SurveyDashboardMetrics,
+  SurveyDashboardQuestionStat,
   SurveyStructure,
 } from '../types/api'
+import {
+  addDays,
+  applyDateRangeParams,
+  formatDateRangeLabel,
+  getDayOffset,
+  getPreviousDateRange,
+  parseDateRangeParams,
+  resolveDateRange,
+  type DateRangeSelection,
+} from '../utils/dateRange'
+import { exportMetricsCsv, exportMetricsJson, type MetricsExportData } from '../utils/export'
+import { buildTotals } from '../utils/metrics'
+import { DEFAULT_QUESTION_TYPE, getQuestionType, questionTypeLabel } from '../utils/questionTypes'
+import { summarizeScale } from '../utils/scaleAnalytics'
 
 const formatDate = (date?: string | null) => {
   if (!date) return 'Sem data definida'
@@ -72,60 +91,95 @@ const renderBreakdownCard = (title: string, items?: DashboardBreakdownItem[]) =>
   </article>
 )
 
+const describeScaleResult = (tipo: QuestionType, question: SurveyDashboardQuestionStat) => {
+  const options = question.options ?? []
+  if (tipo === 'NPS') {
+    const { nps } = summarizeScale('nps', options)
+    return nps.score === null
+      ? undefined
+      : `NPS ${nps.score} • ${nps.promoters} promotores, ${nps.passives} neutros, ${nps.detractors} detratores`
+  }
+  if (tipo === 'RATING') {
+    const { mean } = summarizeScale('rating', options)
+    return mean === null
+      ? undefined
+      : `Média ${mean.toLocaleString('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 })} de 5`
+  }
+  return undefined
+}
+
+const formatSignedNumber = (value: number, fractionDigits = 0) => {
+  const formatted = Math.abs(value).toLocaleString('pt-BR', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  })
+  if (value > 0) return `+${formatted}`
+  if (value < 0) return `-${formatted}`
+  return formatted
+}
+
+const formatCountDelta = (current?: number, previous?: number) => {
+  if (current === undefined || previous === undefined) return undefined
+  const diff = current - previous
+  const percentage = previous > 0 ? ` (${formatSignedNumber((diff / previous) * 100, 1)}%)` : ''
+  return `${formatSignedNumber(diff)}${percentage} vs. período anterior`
+}
+
+const formatRateDelta = (current?: number, previous?: number) => {
+  if (current === undefined || previous === undefined) return undefined
+  return `${formatSignedNumber(current - previous, 1)} p.p. vs. período anterior`
+}
+
+const formatSecondsDelta = (current?: number, previous?: number) => {
+  if (current === undefined || previous === undefined) return undefined
+  const diff = Math.round(current - previous)
+  if (diff === 0) return 'Sem variação vs. período anterior'
+  return `${diff > 0 ? '+' : '-'}${formatSeconds(Math.abs(diff))} vs. período anterior`
+}
+
 const SurveyMetricsPage = () => {
   const { id } = useParams()
   const surveyId = Number(id)
+  const [searchParams, setSearchParams] = useSearchParams()
   const [survey, setSurvey] = useState<SurveyStructure>()
   const [metrics, setMetrics] = useState<SurveyDashboardMetrics>()
+  const [previousMetrics, setPreviousMetrics] = useState<SurveyDashboardMetrics>()
+  const [previousError, setPreviousError] = useState<string>()
   const [audienceMetrics, setAudienceMetrics] = useState<SurveyAudienceMetrics>()
   const [insightsError, setInsightsError] = useState<string>()
+  const [insightsForbidden, setInsightsForbidden] = useState(false)
+  const [insightsLoading, setInsightsLoading] = useState(false)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string>()
 
-  const totals = useMemo(() => {
-    if (!metrics) return undefined
-    const overview = metrics.overview
-    const responsesFromQuestions =
-      metrics.statsByQuestion?.reduce((acc, q) => acc + (q.responses ?? 0), 0) ?? 0
-    const toNumber = (value: unknown) => {
-      const num = Number(value)
-      return Number.isFinite(num) ? num : undefined
-    }
-    const baseResponses =
-      toNumber(metrics.totals?.responses) ??
-      toNumber(metrics.totalResponses) ??
-      toNumber(overview?.totalResponses) ??
-      responsesFromQuestions
-    const completionRate =
-      metrics.totals?.completionRate ?? metrics.completionRate ?? overview?.completionRate
-    const abandonmentRate =
-      metrics.totals?.abandonmentRate ?? metrics.abandonmentRate ?? overview?.abandonmentRate
-    const computedCompletions =
-      completionRate !== undefined ? Math.round(baseResponses * completionRate) : undefined
-    const computedAbandons =
-      abandonmentRate !== undefined ? Math.round(baseResponses * abandonmentRate) : undefined
-    return {
-      responses: baseResponses,
-      completions:
-        metrics.totals?.completions ??
-        metrics.totalCompletions ??
-        overview?.totalCompletions ??
-        computedCompletions ??
-        0,
-      abandons:
-        metrics.totals?.abandons ??
-        metrics.totalAbandons ??
-        overview?.totalAbandons ??
-        computedAbandons ??
-        0,
-      completionRate: completionRate,
-      abandonmentRate: abandonmentRate,
-      avgResponseTimeSeconds:
-        metrics.totals?.avgResponseTimeSeconds ??
-        metrics.avgResponseTimeSeconds ??
-        overview?.avgResponseTimeSeconds,
+  const rangeSelection = useMemo(() => parseDateRangeParams(searchParams), [searchParams])
+  const dateRange = useMemo(() => resolveDateRange(rangeSelection), [rangeSelection])
+  const { from: rangeFrom, to: rangeTo } = dateRange
+  const canCompare = rangeSelection.preset !== 'all'
+  const compareEnabled = canCompare && searchParams.get('compare') === '1'
+  const previousRange = useMemo(
+    () => (compareEnabled ? getPreviousDateRange({ from: rangeFrom, to: rangeTo }) : undefined),
+    [compareEnabled, rangeFrom, rangeTo],
+  )
+  const previousFrom = previousRange?.from
+  const previousTo = previousRange?.to
+
+  const handleRangeChange = (selection: DateRangeSelection) => {
+    setSearchParams(applyDateRangeParams(searchParams, selection), { replace: true })
+  }
+
+  const handleCompareChange = (enabled: boolean) => {
+    const next = new URLSearchParams(searchParams)
+    if (enabled) {
+      next.set('compare', '1')
+    } else {
+      next.delete('compare')
     }
-  }, [metrics])
+    setSearchParams(next, { replace: true })
+  }
+
+  const totals = useMemo(() => buildTotals(metrics), [metrics])
+  const previousTotals = useMemo(() => buildTotals(previousMetrics), [previousMetrics])
 
   useEffect(() => {
     const loadSurvey = async () => {
@@ -148,40 +202,144 @@ const SurveyMetricsPage = () => {
   }, [surveyId])
 
   useEffect(() => {
+    let cancelled = false
     const loadInsights = async () => {
       if (!surveyId) return
+      setInsightsLoading(true)
       try {
-        const dateRange = {
-          from: '2000-01-01T00:00:00',
-          to: new Date().toISOString(),
+        const params = {
+          from: rangeFrom,
+          to: rangeTo,
           includeDeleted: true,
         }
         const [metricsData, audienceData] = await Promise.all([
-          dashboardApi.getSurveyMetrics(surveyId, dateRange),
-          dashboardApi.getSurveyAudience(surveyId, dateRange),
+          dashboardApi.getSurveyMetrics(surveyId, params),
+          dashboardApi.getSurveyAudience(surveyId, params),
         ])
+        if (cancelled) return
         setMetrics(metricsData)
         setAudienceMetrics(audienceData)
         setInsightsError(undefined)
+        setInsightsForbidden(false)
       } catch (err) {
-        const status = (err as { response?: { status?: number } })?.response?.status
-        if (status === 403) {
-          setInsightsError('As métricas do dashboard exigem login com usuário ADMIN.')
-        } else {
-          setInsightsError(parseApiError(err))
-        }
+        if (cancelled) return
+        // Sem isso, a exportação sairia com os dados do período anterior rotulados com o novo.
+        setMetrics(undefined)
+        setAudienceMetrics(undefined)
+        const forbidden = isForbiddenError(err)
+        setInsightsForbidden(forbidden)
+        setInsightsError(forbidden ? 'As métricas do dashboard exigem login com usuário ADMIN.' : parseApiError(err))
+      } finally {
+        if (!cancelled) setInsightsLoading(false)
       }
     }
     void loadInsights()
-  }, [surveyId])
+    return () => {
+      cancelled = true
+    }
+  }, [surveyId, rangeFrom, rangeTo])
 
-  const responsesOverTime = useMemo(
-    () =>
-      metrics?.responsesOverTime?.map((item) => ({
+  useEffect(() => {
+    let cancelled = false
+    const loadPreviousMetrics = async () => {
+      setPreviousError(undefined)
+      if (!surveyId || !previousFrom || !previousTo) {
+        setPreviousMetrics(undefined)
+        return
+      }
+      try {
+        const data = await dashboardApi.getSurveyMetrics(surveyId, {
+          from: previousFrom,
+          to: previousTo,
+          includeDeleted: true,
+        })
+        if (!cancelled) setPreviousMetrics(data)
+      } catch (err) {
+        if (cancelled) return
+        setPreviousMetrics(undefined)
+        setPreviousError(`Não foi possível carregar o período anterior: ${parseApiError(err)}`)
+      }
+    }
+    void loadPreviousMetrics()
+    return () => {
+      cancelled = true
+    }
+  }, [surveyId, previousFrom, previousTo])
+
+  const responsesOverTime = useMemo(() => {
+    const current = metrics?.responsesOverTime ?? []
+    const previous = previousMetrics?.responsesOverTime ?? []
+    const isDaily = (items: Array<{ label: string }>) =>
+      items.every((item) => /^\d{4}-\d{2}-\d{2}/.test(item.label))
+    if (!previousFrom || previous.length === 0) {
+      return current.map((item) => ({
         label: formatTimeSeriesLabel(item.label),
         value: item.count,
-      })) ?? [],
-    [metrics?.responsesOverTime],
+      }))
+    }
+    if (!isDaily(current) || !isDaily(previous)) {
+      const length = Math.max(current.length, previous.length)
+      return Array.from({ length }, (_, index) => ({
+        label: formatTimeSeriesLabel(current[index]?.label ?? previous[index]?.label ?? ''),
+        value: current[index]?.count ?? 0,
+        previous: previous[index]?.count ?? 0,
+      }))
+    }
+    const byOffset = new Map<number, { value: number; previous: number }>()
+    current.forEach((item) => {
+      const offset = getDayOffset(rangeFrom, item.label)
+      const entry = byOffset.get(offset) ?? { value: 0, previous: 0 }
+      entry.value += item.count
+      byOffset.set(offset, entry)
+    })
+    previous.forEach((item) => {
+      const offset = getDayOffset(previousFrom, item.label)
+      const entry = byOffset.get(offset) ?? { value: 0, previous: 0 }
+      entry.previous += item.count
+      byOffset.set(offset, entry)
+    })
+    return Array.from(byOffset.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([offset, entry]) => ({
+        label: formatTimeSeriesLabel(addDays(rangeFrom, offset)),
+        ...entry,
+      }))
+  }, [metrics?.responsesOverTime, previousMetrics?.responsesOverTime, previousFrom, rangeFrom])
+
+  const comparison =
+    compareEnabled && totals && previousTotals
+      ? {
+          responses: formatCountDelta(totals.responses, previousTotals.responses),
+          completionRate: formatRateDelta(totals.completionRate, previousTotals.completionRate),
+          abandonmentRate: formatRateDelta(totals.abandonmentRate, previousTotals.abandonmentRate),
+          avgResponseTime: formatSecondsDelta(
+            totals.avgResponseTimeSeconds,
+            previousTotals.avgResponseTimeSeconds,
+          ),
+        }
+      : undefined
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const data: MetricsExportData = {
+      surveyId,
+      titulo: survey?.titulo,
+      range: dateRange,
+      generatedAt: new Date().toISOString(),
+      totals,
+      statsByQuestion: metrics?.statsByQuestion ?? [],
+      responsesOverTime: metrics?.responsesOverTime ?? [],
+      audience: audienceMetrics,
+    }
+    if (format === 'csv') {
+      exportMetricsCsv(data)
+    } else {
+      exportMetricsJson(data)
+    }
+  }
+
+  const questionTypes = useMemo(
+    () => new Map(survey?.questions.map((question) => [question.id, getQuestionType(question)]) ?? []),
+    [survey],
   )
 
   const questionChartData = useMemo(
@@ -242,6 +400,9 @@ const SurveyMetricsPage = () => {
             <Link to="/surveys" className="btn ghost">
               Voltar
             </Link>
+            <Link to={`/surveys/${surveyId}/votes`} className="btn secondary">
+              Votos
+            </Link>
             <Link to={`/surveys/${surveyId}`} className="btn secondary">
               Editar
             </Link>
@@ -268,7 +429,11 @@ const SurveyMetricsPage = () => {
               >
                 <span className="metric-card__dot" />
               </MetricCard>
-              <MetricCard title="Votos coletados" value={totals?.responses ?? 0}>
+              <MetricCard
+                title="Votos coletados"
+                value={totals?.responses ?? 0}
+                delta={comparison?.responses}
+              >
                 <span className="metric-card__dot" />
               </MetricCard>
             </div>
@@ -276,7 +441,61 @@ const SurveyMetricsPage = () => {
         )}
       </section>
 
-      {insightsError && <p className="error-text">{insightsError}</p>}
+      <section className="panel">
+        <div className="panel-header">
+          <div>
+            <p className="eyebrow">Período</p>
+            <h2>{formatDateRangeLabel(dateRange)}</h2>
+          </div>
+          <div className="hero-actions">
+            <button
+              className="btn ghost small"
+              type="button"
+              onClick={() => handleExport('csv')}
+              disabled={insightsLoading || !metrics}
+            >
+              Exportar CSV
+            </button>
+            <button
+              className="btn ghost small"
+              type="button"
+              onClick={() => handleExport('json')}
+              disabled={insightsLoading || !metrics}
+            >
+              Exportar JSON
+            </button>
+          </div>
+        </div>
+        <DateRangePicker value={rangeSelection} onChange={handleRangeChange} disabled={insightsLoading} />
+        <label className="form-checkbox">
+          <input
+            type="checkbox"
+            checked={compareEnabled}
+            onChange={(event) => handleCompareChange(event.target.checked)}
+            disabled={!canCompare}
+          />
+          <span>
+            Comparar com período anterior
+            {previousRange ? ` (${formatDateRangeLabel(previousRange)})` : ''}
+          </span>
+        </label>
+        {!canCompare && (
+          <p className="muted-text">Selecione um período definido para comparar com o anterior.</p>
+        )}
+        {compareEnabled && previousError && <p className="error-text">{previousError}</p>}
+        {insightsLoading && <p className="muted-text">Atualizando métricas...</p>}
+      </section>
+
+      {insightsError &&
+        (insightsForbidden ? (
+          <ForbiddenState
+            message={insightsError}
+            backTo={`/surveys/${surveyId}`}
+            backLabel="Voltar para a pesquisa"
+          />
+        ) : (
+          <p className="error-text">{insightsError}</p>
+        ))}
 
       {totals && (
         <section className="panel">
@@ -296,6 +515,7 @@ const SurveyMetricsPage = () => {
                   0}
               </strong>
               <span className="muted-text">Conclusões {totals.completions ?? 0}</span>
+              {comparison?.responses && <span className="stat-card__delta">{comparison.responses}</span>}
             </article>
             <article className="stat-card">
               <p className="eyebrow">Abandonos</p>
@@ -306,6 +526,9 @@ const SurveyMetricsPage = () => {
                   ? `${totals.abandonmentRate.toFixed(1)}%`
                   : '—'}
               </span>
+              {comparison?.abandonmentRate && (
+                <span className="stat-card__delta">{comparison.abandonmentRate}</span>
+              )}
             </article>
             <article className="stat-card">
               <p className="eyebrow">Taxa de conclusão</p>
@@ -314,11 +537,17 @@ const SurveyMetricsPage = () => {
                   ? `${totals.completionRate.toFixed(1)}%`
                   : '—'}
               </strong>
+              {comparison?.completionRate && (
+                <span className="stat-card__delta">{comparison.completionRate}</span>
+              )}
             </article>
             <article className="stat-card">
               <p className="eyebrow">Tempo médio</p>
               <strong>{formatSeconds(totals.avgResponseTimeSeconds)}</strong>
               <span className="muted-text">Tempo para responder</span>
+              {comparison?.avgResponseTime && (
+                <span className="stat-card__delta">{comparison.avgResponseTime}</span>
+              )}
             </article>
           </div>
         </section>
@@ -359,7 +588,26 @@ const SurveyMetricsPage = () => {
                 <XAxis dataKey="label" />
                 <YAxis />
                 <Tooltip formatter={(value: number) => value.toLocaleString('pt-BR')} />
-                <Line type="monotone" dataKey="value" stroke="#0f8f53" strokeWidth={2} dot />
+                {compareEnabled && previousMetrics && <Legend />}
+                <Line
+                  type="monotone"
+                  dataKey="value"
+                  name="Período atual"
+                  stroke="#0f8f53"
+                  strokeWidth={2}
+                  dot
+                />
+                {compareEnabled && previousMetrics && (
+                  <Line
+                    type="monotone"
+                    dataKey="previous"
+                    name="Período anterior"
+                    stroke="#f19953"
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                    dot={false}
+                  />
+                )}
               </LineChart>
             </ResponsiveContainer>
           </div>
@@ -403,50 +651,72 @@ const SurveyMetricsPage = () => {
                 </tr>
               </thead>
               <tbody>
-                {metrics.statsByQuestion.map((question) => (
-                  <tr key={question.questionId}>
-                    <td>
-                      <strong>{question.texto}</strong>
-                      {question.options && question.options.length > 0 && (
-                        <ul className="simple-list nested">
-                          {question.options.map((option) => (
-                            <li key={option.optionId}>
-                              <span>{option.texto}</span>
-                            </li>
-                          ))}
-                        </ul>
-                      )}
-                    </td>
-                    <td className="text-center">
-                      <strong>{question.responses}</strong>
-                      {question.options && question.options.length > 0 && (
-                        <ul className="simple-list nested centered">
-                          {question.options.map((option) => (
-                            <li key={option.optionId}>
-                              <span>
-                                {option.responses} resp{' '}
-                                {option.percentage !== undefined
-                                  ? `(${option.percentage.toFixed(1)}%)`
-                                  : ''}
-                              </span>
-                            </li>
-                          ))}
-                        </ul>
-                      )}
-                    </td>
-                    <td>
-                      {question.completionRate !== undefined
-                        ? `${question.completionRate.toFixed(1)}%`
-                        : '—'}
-                    </td>
-                  </tr>
-                ))}
+                {metrics.statsByQuestion.map((question) => {
+                  const tipo = questionTypes.get(question.questionId) ?? DEFAULT_QUESTION_TYPE
+                  const scaleResult = describeScaleResult(tipo, question)
+                  return (
+                    <tr key={question.questionId}>
+                      <td>
+                        <strong>{question.texto}</strong>{' '}
+                        <span className="status-pill neutral">{questionTypeLabel(tipo)}</span>
+                        {scaleResult && <p className="muted-text">{scaleResult}</p>}
+                        {tipo === 'TEXT' && (
+                          <p className="muted-text">
+                            Respostas abertas não são agregadas; veja cada uma na página de respondentes.
+                          </p>
+                        )}
+                        {question.options && question.options.length > 0 && (
+                          <ul className="simple-list nested">
+                            {question.options.map((option) => (
+                              <li key={option.optionId}>
+                                <span>{option.texto}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                      <td className="text-center">
+                        <strong>{question.responses}</strong>
+                        {question.options && question.options.length > 0 && (
+                          <ul className="simple-list nested centered">
+                            {question.options.map((option) => (
+                              <li key={option.optionId}>
+                                <span>
+                                  {option.responses} resp{' '}
+                                  {option.percentage !== undefined
+                                    ? `(${option.percentage.toFixed(1)}%)`
+                                    : ''}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                      <td>
+                        {question.completionRate !== undefined
+                          ? `${question.completionRate.toFixed(1)}%`
+                          : '—'}
+                      </td>
+                    </tr>
+                  )
+                })}
               </tbody>
             </table>
           </div>
         </section>
       )}
 
+      {metrics?.statsByQuestion && metrics.statsByQuestion.length > 0 && (
+        <ScaleAnalyticsPanel
+          surveyId={surveyId}
+          questions={metrics.statsByQuestion}
+          questionTypes={questionTypes}
+          timeLabels={metrics.responsesOverTime?.map((item) => item.label) ?? []}
+          from={rangeFrom}
+          to={rangeTo}
+        />
+      )}
+
       {audienceMetrics && (
         <section className="panel">
           <div className="panel-header">
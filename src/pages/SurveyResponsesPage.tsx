@@ -0,0 +1,242 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useParams, useSearchParams } from 'react-router-dom'
+import Layout from '../components/Layout'
+import MetricCard from '../components/MetricCard'
+import { parseApiError, surveyApi, voteApi } from '../services/api'
+import type { SurveyStructure, Vote } from '../types/api'
+import { formatDateTime, formatLocation } from '../utils/format'
+import { buildRespondentAnswers, groupVotesBySession, voteAnswer } from '../utils/sessions'
+
+const answerStatusLabel = {
+  answered: { label: 'Respondida', className: 'success' },
+  skipped: { label: 'Pulada', className: 'neutral' },
+  abandoned: { label: 'Abandonou', className: 'danger' },
+} as const
+
+const SurveyResponsesPage = () => {
+  const { id } = useParams()
+  const surveyId = Number(id)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const selectedSessionId = searchParams.get('session') ?? ''
+  const [survey, setSurvey] = useState<SurveyStructure>()
+  const [votes, setVotes] = useState<Vote[]>([])
+  const [truncated, setTruncated] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string>()
+  const [searchTerm, setSearchTerm] = useState('')
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!surveyId) return
+      setLoading(true)
+      setError(undefined)
+      try {
+        const [structureData, votesData] = await Promise.all([
+          surveyApi.getStructure(surveyId, {
+            includeDeleted: true,
+            includeInactiveOptions: true,
+          }),
+          voteApi.listAll({ surveyId, includeDeleted: true }),
+        ])
+        setSurvey(structureData)
+        setVotes(votesData.votes)
+        setTruncated(votesData.truncated)
+      } catch (err) {
+        setError(parseApiError(err))
+      } finally {
+        setLoading(false)
+      }
+    }
+    void loadData()
+  }, [surveyId])
+
+  const sessions = useMemo(() => groupVotesBySession(votes), [votes])
+
+  const filteredSessions = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
+    if (!term) return sessions
+    return sessions.filter(
+      (session) =>
+        session.sessionId.toLowerCase().includes(term) ||
+        (session.device ?? '').toLowerCase().includes(term) ||
+        (session.source ?? '').toLowerCase().includes(term) ||
+        formatLocation(session.location).toLowerCase().includes(term),
+    )
+  }, [searchTerm, sessions])
+
+  const selectedSession = useMemo(
+    () => sessions.find((session) => session.sessionId === selectedSessionId),
+    [selectedSessionId, sessions],
+  )
+
+  const answers = useMemo(
+    () => (survey && selectedSession ? buildRespondentAnswers(survey.questions, selectedSession, survey.rules) : []),
+    [selectedSession, survey],
+  )
+
+  const answeredCount = answers.filter((answer) => answer.status === 'answered').length
+
+  const selectSession = (sessionId: string) => {
+    setSearchParams(sessionId ? { session: sessionId } : {})
+  }
+
+  if (!surveyId) {
+    return (
+      <Layout title="Respondentes" subtitle="ID inválido">
+        <p className="error-text">ID da pesquisa inválido.</p>
+      </Layout>
+    )
+  }
+
+  return (
+    <Layout title={survey?.titulo ?? 'Respondentes'} subtitle="Respostas agrupadas por sessão">
+      <section className="panel">
+        <div className="panel-header">
+          <div>
+            <p className="eyebrow">Pesquisa #{surveyId}</p>
+            <h2>Respondentes</h2>
+          </div>
+          <div className="hero-actions">
+            <Link to={`/surveys/${surveyId}/votes`} className="btn ghost">
+              Voltar
+            </Link>
+          </div>
+        </div>
+        <div className="filter-group" style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }}>
+          <label>
+            <span>Buscar</span>
+            <input
+              type="search"
+              value={searchTerm}
+              onChange={(event) => setSearchTerm(event.target.value)}
+              placeholder="Sessão, dispositivo, origem ou local"
+            />
+          </label>
+        </div>
+        <p className="muted-text">
+          Mostrando {filteredSessions.length} de {sessions.length} sessões
+        </p>
+
+        {truncated && (
+          <p className="error-text">
+            Só os primeiros {votes.length} votos foram carregados: há sessões incompletas ou ausentes nesta
+            lista.
+          </p>
+        )}
+        {loading && <p>Carregando respostas...</p>}
+        {error && <p className="error-text">{error}</p>}
+        {!loading && !error && sessions.length === 0 && <p>Nenhuma sessão registrada.</p>}
+
+        {filteredSessions.length > 0 && (
+          <div className="table-wrapper compact">
+            <table className="simple-table">
+              <thead>
+                <tr>
+                  <th>Sessão</th>
+                  <th className="text-center">Respostas</th>
+                  <th className="text-center">Dispositivo</th>
+                  <th className="text-center">Origem</th>
+                  <th className="text-center">Última resposta</th>
+                  <th className="text-center">Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredSessions.map((session) => (
+                  <tr key={session.sessionId}>
+                    <td>
+                      <strong>{session.sessionId}</strong>
+                    </td>
+                    <td className="text-center">{session.votes.length}</td>
+                    <td className="text-center">{session.device ?? '—'}</td>
+                    <td className="text-center">{session.source ?? '—'}</td>
+                    <td className="text-center">{formatDateTime(session.lastVoteAt)}</td>
+                    <td className="table-actions text-center">
+                      <button
+                        className={`btn small ${session.sessionId === selectedSessionId ? 'primary' : 'secondary'}`}
+                        type="button"
+                        onClick={() => selectSession(session.sessionId)}
+                      >
+                        Ver respostas
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {selectedSessionId && !loading && !selectedSession && (
+        <section className="panel">
+          <p className="error-text">Sessão {selectedSessionId} não encontrada nesta pesquisa.</p>
+        </section>
+      )}
+
+      {selectedSession && survey && (
+        <section className="panel">
+          <div className="panel-header">
+            <div>
+              <p className="eyebrow">Respondente</p>
+              <h2>Sessão {selectedSession.sessionId}</h2>
+            </div>
+            <div className="hero-actions">
+              <button className="btn ghost small" type="button" onClick={() => selectSession('')}>
+                Fechar
+              </button>
+            </div>
+          </div>
+          <div className="metrics-grid">
+            <MetricCard
+              title="Perguntas respondidas"
+              value={`${answeredCount}/${answers.length}`}
+              delta={answeredCount < answers.length ? 'Resposta incompleta' : 'Resposta completa'}
+            >
+              <span className={`metric-card__dot${answeredCount < answers.length ? ' neutral' : ''}`} />
+            </MetricCard>
+            <MetricCard title="Dispositivo" value={selectedSession.device ?? '—'}>
+              <span className="metric-card__dot" />
+            </MetricCard>
+            <MetricCard title="Origem" value={selectedSession.source ?? '—'}>
+              <span className="metric-card__dot" />
+            </MetricCard>
+            <MetricCard
+              title="Localização"
+              value={formatLocation(selectedSession.location)}
+              delta={`${formatDateTime(selectedSession.firstVoteAt)} → ${formatDateTime(selectedSession.lastVoteAt)}`}
+            >
+              <span className="metric-card__dot" />
+            </MetricCard>
+          </div>
+          <div className="questions-list">
+            {answers.map((answer) => (
+              <article key={answer.question.id} className="question-card">
+                <div className="card-header">
+                  <div>
+                    <p className="eyebrow">#{answer.question.ordem}</p>
+                    <h3>{answer.question.texto}</h3>
+                  </div>
+                  <span className={`status-pill ${answerStatusLabel[answer.status].className}`}>
+                    {answerStatusLabel[answer.status].label}
+                  </span>
+                </div>
+                <ul className="options-list">
+                  {answer.votes.length === 0 && <li className="option-row muted">Sem resposta.</li>}
+                  {answer.votes.map((vote) => (
+                    <li key={vote.id} className="option-row">
+                      <span>{voteAnswer(vote)}</span>
+                      <div className="option-row__spacer" />
+                      <small className="muted-text">{formatDateTime(vote.createdAt)}</small>
+                    </li>
+                  ))}
+                </ul>
+              </article>
+            ))}
+          </div>
+        </section>
+      )}
+    </Layout>
+  )
+}
+
+export default SurveyResponsesPage
@@ -0,0 +1,279 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import Layout from '../components/Layout'
+import { parseApiError, surveyApi, voteApi } from '../services/api'
+import type { SurveyStructure, Vote } from '../types/api'
+import { formatDateTime, formatLocation } from '../utils/format'
+import { toArray } from '../utils/response'
+import { voteAnswer } from '../utils/sessions'
+
+const PAGE_SIZES = [25, 50, 100]
+
+const SurveyVotesPage = () => {
+  const { id } = useParams()
+  const surveyId = Number(id)
+  const [survey, setSurvey] = useState<SurveyStructure>()
+  const [votes, setVotes] = useState<Vote[]>([])
+  const [totalPages, setTotalPages] = useState<number>()
+  const [totalElements, setTotalElements] = useState<number>()
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string>()
+  const [surveyError, setSurveyError] = useState<string>()
+  const [questionFilter, setQuestionFilter] = useState('')
+  const [deviceFilter, setDeviceFilter] = useState('')
+  const [sourceFilter, setSourceFilter] = useState('')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [page, setPage] = useState(0)
+  const [size, setSize] = useState(PAGE_SIZES[1])
+
+  useEffect(() => {
+    const loadSurvey = async () => {
+      if (!surveyId) return
+      try {
+        const structureData = await surveyApi.getStructure(surveyId, {
+          includeDeleted: true,
+          includeInactiveOptions: true,
+        })
+        setSurvey(structureData)
+        setSurveyError(undefined)
+      } catch (err) {
+        setSurveyError(parseApiError(err))
+      }
+    }
+    void loadSurvey()
+  }, [surveyId])
+
+  useEffect(() => {
+    let cancelled = false
+    const loadVotes = async () => {
+      if (!surveyId) return
+      setLoading(true)
+      setError(undefined)
+      try {
+        const data = await voteApi.list({
+          surveyId,
+          questionId: questionFilter ? Number(questionFilter) : undefined,
+          page,
+          size,
+          includeDeleted: true,
+        })
+        if (cancelled) return
+        const pageInfo = Array.isArray(data)
+          ? undefined
+          : (data as { totalPages?: number; totalElements?: number })
+        setVotes(toArray<Vote>(data))
+        setTotalPages(pageInfo?.totalPages)
+        setTotalElements(pageInfo?.totalElements)
+      } catch (err) {
+        if (!cancelled) setError(parseApiError(err))
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    void loadVotes()
+    return () => {
+      cancelled = true
+    }
+  }, [surveyId, questionFilter, page, size])
+
+  const deviceOptions = useMemo(
+    () => Array.from(new Set(votes.map((vote) => vote.device).filter(Boolean))) as string[],
+    [votes],
+  )
+
+  const sourceOptions = useMemo(
+    () => Array.from(new Set(votes.map((vote) => vote.source).filter(Boolean))) as string[],
+    [votes],
+  )
+
+  const filteredVotes = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
+    return votes.filter((vote) => {
+      const matchesDevice = deviceFilter ? vote.device === deviceFilter : true
+      const matchesSource = sourceFilter ? vote.source === sourceFilter : true
+      const matchesSearch = term
+        ? String(vote.sessionId ?? '').toLowerCase().includes(term) ||
+          voteAnswer(vote).toLowerCase().includes(term) ||
+          formatLocation(vote.location).toLowerCase().includes(term)
+        : true
+      return matchesDevice && matchesSource && matchesSearch
+    })
+  }, [deviceFilter, searchTerm, sourceFilter, votes])
+
+  const hasNextPage =
+    totalPages !== undefined ? page + 1 < totalPages : votes.length === size
+
+  if (!surveyId) {
+    return (
+      <Layout title="Votos" subtitle="ID inválido">
+        <p className="error-text">ID da pesquisa inválido.</p>
+      </Layout>
+    )
+  }
+
+  return (
+    <Layout title={survey?.titulo ?? 'Votos da pesquisa'} subtitle="Auditoria de respostas individuais">
+      <section className="panel">
+        <div className="panel-header">
+          <div>
+            <p className="eyebrow">Pesquisa #{surveyId}</p>
+            <h2>Votos registrados</h2>
+          </div>
+          <div className="hero-actions">
+            <Link to={`/surveys/${surveyId}/metrics`} className="btn ghost">
+              Voltar
+            </Link>
+            <Link to={`/surveys/${surveyId}/responses`} className="btn secondary">
+              Respondentes
+            </Link>
+          </div>
+        </div>
+        <div className="filter-group" style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }}>
+          <label>
+            <span>Pergunta</span>
+            <select
+              value={questionFilter}
+              onChange={(event) => {
+                setQuestionFilter(event.target.value)
+                setPage(0)
+              }}
+            >
+              <option value="">Todas</option>
+              {survey?.questions.map((question) => (
+                <option key={question.id} value={question.id}>
+                  #{question.ordem} - {question.texto}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Dispositivo</span>
+            <select value={deviceFilter} onChange={(event) => setDeviceFilter(event.target.value)}>
+              <option value="">Todos</option>
+              {deviceOptions.map((device) => (
+                <option key={device} value={device}>
+                  {device}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Origem</span>
+            <select value={sourceFilter} onChange={(event) => setSourceFilter(event.target.value)}>
+              <option value="">Todas</option>
+              {sourceOptions.map((source) => (
+                <option key={source} value={source}>
+                  {source}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Buscar</span>
+            <input
+              type="search"
+              value={searchTerm}
+              onChange={(event) => setSearchTerm(event.target.value)}
+              placeholder="Sessão, opção ou local"
+            />
+          </label>
+          <label>
+            <span>Por página</span>
+            <select
+              value={size}
+              onChange={(event) => {
+                setSize(Number(event.target.value))
+                setPage(0)
+              }}
+            >
+              {PAGE_SIZES.map((pageSize) => (
+                <option key={pageSize} value={pageSize}>
+                  {pageSize}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p className="muted-text">
+          Mostrando {filteredVotes.length} de {votes.length} votos nesta página
+          {totalElements !== undefined ? ` • ${totalElements} no total` : ''}
+          {' '}• Dispositivo, origem e busca filtram apenas os votos desta página.
+        </p>
+
+        {surveyError && <p className="error-text">{surveyError}</p>}
+        {loading && <p>Carregando votos...</p>}
+        {error && <p className="error-text">{error}</p>}
+
+        {!loading && !error && filteredVotes.length === 0 && <p>Nenhum voto encontrado.</p>}
+
+        {filteredVotes.length > 0 && (
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>Pergunta</th>
+                  <th>Opção</th>
+                  <th className="text-center">Data</th>
+                  <th>Sessão</th>
+                  <th className="text-center">Origem</th>
+                  <th className="text-center">Dispositivo</th>
+                  <th>Localização</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredVotes.map((vote) => (
+                  <tr key={vote.id}>
+                    <td>{vote.questionText}</td>
+                    <td>
+                      <strong>{voteAnswer(vote)}</strong>
+                    </td>
+                    <td className="text-center">{formatDateTime(vote.createdAt, { withSeconds: true })}</td>
+                    <td>
+                      {vote.sessionId !== undefined && vote.sessionId !== '' ? (
+                        <Link
+                          to={`/surveys/${surveyId}/responses?session=${encodeURIComponent(String(vote.sessionId))}`}
+                        >
+                          {vote.sessionId}
+                        </Link>
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                    <td className="text-center">{vote.source ?? '—'}</td>
+                    <td className="text-center">{vote.device ?? '—'}</td>
+                    <td>{formatLocation(vote.location)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="pagination">
+          <button
+            className="btn ghost small"
+            type="button"
+            onClick={() => setPage((prev) => Math.max(prev - 1, 0))}
+            disabled={loading || page === 0}
+          >
+            Anterior
+          </button>
+          <span className="muted-text">
+            Página {page + 1}
+            {totalPages !== undefined ? ` de ${Math.max(totalPages, 1)}` : ''}
+          </span>
+          <button
+            className="btn ghost small"
+            type="button"
+            onClick={() => setPage((prev) => prev + 1)}
+            disabled={loading || !hasNextPage}
+          >
+            Próxima
+          </button>
+        </div>
+      </section>
+    </Layout>
+  )
+}
+
+export default SurveyVotesPage
@@ -1,8 +1,17 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { Link } from 'react-router-dom'
+import BulkActionProgress from '../components/BulkActionProgress'
 import ConfirmModal from '../components/ConfirmModal'
 import Layout from '../components/Layout'
-import { parseApiError, surveyApi } from '../services/api'
+import { useAuth } from '../hooks/useAuth'
+import { draftApi, parseApiError, surveyApi } from '../services/api'
+import {
+  BULK_ACTION_LABELS,
+  planBulkAction,
+  runBulkAction,
+  type BulkRunState,
+  type BulkSurveyAction,
+} from '../services/surveyBulk'
 import type { Survey } from '../types/api'
 import { toArray } from '../utils/response'
 
@@ -26,6 +35,7 @@ type SortKey = 'id' | 'validity'
 type SortDirection = 'asc' | 'desc'
 
 const SurveysPage = () => {
+  const { can } = useAuth()
   const publicSurveyBaseUrl =
     import.meta.env.VITE_PUBLIC_SURVEY_BASE_URL ?? 'http://localhost:5173/surveys'
   const [surveys, setSurveys] = useState<Survey[]>([])
@@ -40,6 +50,11 @@ const SurveysPage = () => {
   const [sortKey, setSortKey] = useState<SortKey>('id')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
   const [toast, setToast] = useState<{ type: 'error' | 'info'; message: string } | null>(null)
+  const [draftCount, setDraftCount] = useState(0)
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(() => new Set())
+  const [bulkExpiry, setBulkExpiry] = useState('')
+  const [pendingBulkAction, setPendingBulkAction] = useState<BulkSurveyAction | null>(null)
+  const [bulkRun, setBulkRun] = useState<BulkRunState | null>(null)
 
   const fetchSurveys = useCallback(async () => {
     setLoading(true)
@@ -72,7 +87,7 @@ const SurveysPage = () => {
     if (survey.deletedAt) return
     const isInactiveOrDeleted = !survey.ativo || Boolean(survey.deletedAt)
     const targetUrl = isInactiveOrDeleted
-      ? `/surveys/${survey.id}`
+      ? `/surveys/${survey.id}?preview=1`
       : `${publicSurveyBaseUrl}/${survey.id}`
     window.open(targetUrl, '_blank')
   }
@@ -81,6 +96,12 @@ const SurveysPage = () => {
     void fetchSurveys()
   }, [fetchSurveys])
 
+  useEffect(() => {
+    const countDrafts = async () => setDraftCount((await draftApi.list()).length)
+    void countDrafts()
+    return draftApi.subscribe(() => void countDrafts())
+  }, [])
+
   const handleSort = (key: SortKey) => {
     setSortDirection((prev) => {
       if (sortKey !== key) return 'asc'
@@ -115,6 +136,51 @@ const SurveysPage = () => {
     return sorted
   }, [searchTerm, sortDirection, sortKey, statusFilter, surveys])
 
+  const selectedSurveys = filteredAndSortedSurveys.filter((survey) => selectedIds.has(survey.id))
+  const allVisibleSelected =
+    filteredAndSortedSurveys.length > 0 && selectedSurveys.length === filteredAndSortedSurveys.length
+  const bulkRunning = bulkRun?.status === 'running'
+
+  const toggleSelected = (surveyId: number) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(surveyId)) next.delete(surveyId)
+      else next.add(surveyId)
+      return next
+    })
+  }
+
+  const toggleAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredAndSortedSurveys.map((survey) => survey.id)))
+  }
+
+  const executeBulk = async (plan: BulkRunState) => {
+    const result = await runBulkAction(plan, setBulkRun)
+    // Mantém selecionadas só as que falharam, prontas para uma nova tentativa.
+    setSelectedIds(new Set(result.items.filter((item) => item.status === 'failed').map((item) => item.survey.id)))
+    if (result.action !== 'export') await fetchSurveys()
+  }
+
+  const startBulk = (action: BulkSurveyAction) => {
+    setPendingBulkAction(null)
+    const dataValidade = bulkExpiry ? new Date(bulkExpiry).toISOString() : null
+    void executeBulk(planBulkAction(action, selectedSurveys, action === 'expiry' ? dataValidade : undefined))
+  }
+
+  const describeBulkAction = (action: BulkSurveyAction) => {
+    const count = `${selectedSurveys.length} pesquisa${selectedSurveys.length === 1 ? '' : 's'}`
+    switch (action) {
+      case 'delete':
+        return `Remover ${count}? Pesquisas removidas podem ser restauradas depois.`
+      case 'expiry':
+        return bulkExpiry
+          ? `Alterar a validade de ${count} para ${new Date(bulkExpiry).toLocaleString('pt-BR')}?`
+          : `Remover a data de validade de ${count}?`
+      default:
+        return `${BULK_ACTION_LABELS[action]} ${count}?`
+    }
+  }
+
   const getStatusPills = (survey: Survey) => {
     const pills: Array<{ label: string; className: string }> = [
       survey.ativo ? { label: 'Ativa', className: 'success' } : { label: 'Inativa', className: 'neutral' },
@@ -185,6 +251,14 @@ const SurveysPage = () => {
         }}
         confirmLoading={restoringId === restoreTarget?.id}
       />
+      <ConfirmModal
+        open={Boolean(pendingBulkAction)}
+        title="Ação em lote"
+        description={pendingBulkAction ? describeBulkAction(pendingBulkAction) : ''}
+        confirmLabel={pendingBulkAction ? BULK_ACTION_LABELS[pendingBulkAction] : undefined}
+        onCancel={() => setPendingBulkAction(null)}
+        onConfirm={() => pendingBulkAction && startBulk(pendingBulkAction)}
+      />
       {toast && (
         <div className={`toast ${toast.type === 'error' ? 'error' : ''}`}>
           <span>{toast.message}</span>
@@ -201,9 +275,21 @@ const SurveysPage = () => {
             <h2>Todas</h2>
           </div>
           <div className="hero-actions">
-            <Link to="/surveys/new" className="btn primary small">
-              Criar pesquisa
-            </Link>
+            {can('metrics:view') && (
+              <Link to="/surveys/compare" className="btn secondary small">
+                Comparar
+              </Link>
+            )}
+            {can('survey:create') && draftCount > 0 && (
+              <Link to="/surveys/new" className="btn ghost small">
+                Rascunhos ({draftCount})
+              </Link>
+            )}
+            {can('survey:create') && (
+              <Link to="/surveys/new" className="btn primary small">
+                Criar pesquisa
+              </Link>
+            )}
           </div>
         </div>
         <div className="filter-group" style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }}>
@@ -232,6 +318,93 @@ const SurveysPage = () => {
           Mostrando {filteredAndSortedSurveys.length} de {surveys.length} pesquisas
         </p>
 
+        {selectedSurveys.length > 0 && (
+          <div className="bulk-actions">
+            <strong>{selectedSurveys.length} selecionadas</strong>
+            {can('survey:edit') && (
+              <>
+                <button
+                  className="btn secondary small"
+                  type="button"
+                  onClick={() => setPendingBulkAction('activate')}
+                  disabled={bulkRunning}
+                >
+                  Ativar
+                </button>
+                <button
+                  className="btn secondary small"
+                  type="button"
+                  onClick={() => setPendingBulkAction('deactivate')}
+                  disabled={bulkRunning}
+                >
+                  Desativar
+                </button>
+                <label className="bulk-actions__expiry">
+                  <span>Nova validade</span>
+                  <input
+                    type="datetime-local"
+                    value={bulkExpiry}
+                    onChange={(event) => setBulkExpiry(event.target.value)}
+                    disabled={bulkRunning}
+                  />
+                </label>
+                <button
+                  className="btn secondary small"
+                  type="button"
+                  onClick={() => setPendingBulkAction('expiry')}
+                  disabled={bulkRunning}
+                  title={bulkExpiry ? undefined : 'Sem data, a validade das pesquisas é removida.'}
+                >
+                  Alterar validade
+                </button>
+              </>
+            )}
+            <button
+              className="btn ghost small"
+              type="button"
+              onClick={() => startBulk('export')}
+              disabled={bulkRunning}
+            >
+              Exportar
+            </button>
+            {can('survey:delete') && (
+              <>
+                <button
+                  className="btn danger small"
+                  type="button"
+                  onClick={() => setPendingBulkAction('restore')}
+                  disabled={bulkRunning}
+                >
+                  Restaurar
+                </button>
+                <button
+                  className="btn danger small"
+                  type="button"
+                  onClick={() => setPendingBulkAction('delete')}
+                  disabled={bulkRunning}
+                >
+                  Remover
+                </button>
+              </>
+            )}
+            <button
+              className="btn ghost small"
+              type="button"
+              onClick={() => setSelectedIds(new Set())}
+              disabled={bulkRunning}
+            >
+              Limpar seleção
+            </button>
+          </div>
+        )}
+        {bulkRun && (
+          <BulkActionProgress
+            state={bulkRun}
+            onRetry={() => void executeBulk(bulkRun)}
+            onClose={() => setBulkRun(null)}
+          />
+        )}
+
         {loading && <p>Carregando pesquisas...</p>}
         {error && <p className="error-text">{error}</p>}
 
@@ -244,6 +417,15 @@ const SurveysPage = () => {
             <table>
               <thead>
                 <tr>
+                  <th className="text-center">
+                    <input
+                      type="checkbox"
+                      aria-label="Selecionar todas as pesquisas visíveis"
+                      checked={allVisibleSelected}
+                      onChange={toggleAllVisible}
+                      disabled={bulkRunning}
+                    />
+                  </th>
                   <th className="text-center">
                     <button
                       type="button"
@@ -270,6 +452,15 @@ const SurveysPage = () => {
               <tbody>
                 {filteredAndSortedSurveys.map((survey) => (
                   <tr key={survey.id}>
+                    <td className="text-center">
+                      <input
+                        type="checkbox"
+                        aria-label={`Selecionar "${survey.titulo}"`}
+                        checked={selectedIds.has(survey.id)}
+                        onChange={() => toggleSelected(survey.id)}
+                        disabled={bulkRunning}
+                      />
+                    </td>
                     <td className="text-center">#{survey.id}</td>
                     <td>
                       <strong>{survey.titulo}</strong>
@@ -293,14 +484,21 @@ const SurveysPage = () => {
                       >
                         Ver
                       </button>
-                      <Link to={`/surveys/${survey.id}/metrics`} className="btn secondary small">
-                        Métricas
-                    </Link>
+                      {can('metrics:view') && (
+                        <Link to={`/surveys/${survey.id}/metrics`} className="btn secondary small">
+                          Métricas
+                        </Link>
+                      )}
                     <Link to={`/surveys/${survey.id}`} className="btn secondary small">
-                      Editar
+                      {can('survey:edit') ? 'Editar' : 'Abrir'}
                     </Link>
+                    {can('survey:create') && (
+                      <Link to={`/surveys/new?duplicate=${survey.id}`} className="btn ghost small">
+                        Duplicar
+                      </Link>
+                    )}
                     {/** Ativas/inativas: permitem remoção. Deletadas: mostram reativar (desabilitado por enquanto). */}
-                    {survey.deletedAt ? (
+                    {!can('survey:delete') ? null : survey.deletedAt ? (
                       <button
                         className="btn danger small"
                         type="button"
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import ConfirmModal from '../components/ConfirmModal'
+import Layout from '../components/Layout'
+import TemplateNameModal from '../components/TemplateNameModal'
+import { useAuth } from '../hooks/useAuth'
+import { parseApiError, templateApi } from '../services/api'
+import type { SurveyTemplate } from '../types/api'
+
+const formatDate = (date?: string | null) => {
+  if (!date) return '—'
+  return new Date(date).toLocaleDateString('pt-BR')
+}
+
+const TemplatesPage = () => {
+  const { can } = useAuth()
+  const canManage = can('template:manage')
+  const canCreate = can('survey:create')
+  const [templates, setTemplates] = useState<SurveyTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string>()
+  const [previewId, setPreviewId] = useState<string | null>(null)
+  const [renameTarget, setRenameTarget] = useState<SurveyTemplate | null>(null)
+  const [deleteTarget, setDeleteTarget] = useState<SurveyTemplate | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fetchTemplates = useCallback(async () => {
+    setLoading(true)
+    setError(undefined)
+    try {
+      setTemplates(await templateApi.list())
+    } catch (err) {
+      setError(parseApiError(err))
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void fetchTemplates()
+  }, [fetchTemplates])
+
+  const handleRename = async (nome: string) => {
+    if (!renameTarget) return
+    setIsSaving(true)
+    try {
+      await templateApi.update(renameTarget.id, { nome })
+      setRenameTarget(null)
+      await fetchTemplates()
+    } catch (err) {
+      setError(parseApiError(err))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const confirmDelete = async () => {
+    if (!deleteTarget) return
+    setIsSaving(true)
+    try {
+      await templateApi.remove(deleteTarget.id)
+      await fetchTemplates()
+    } catch (err) {
+      setError(parseApiError(err))
+    } finally {
+      setIsSaving(false)
+      setDeleteTarget(null)
+    }
+  }
+
+  return (
+    <Layout title="Templates" subtitle="Estruturas reutilizáveis para novas pesquisas">
+      <ConfirmModal
+        open={Boolean(deleteTarget)}
+        title="Remover template"
+        description={deleteTarget ? `Deseja remover o template "${deleteTarget.nome}"?` : ''}
+        confirmLabel="Remover"
+        onCancel={() => setDeleteTarget(null)}
+        onConfirm={confirmDelete}
+        confirmLoading={isSaving}
+      />
+      <TemplateNameModal
+        key={renameTarget?.id ?? 'rename'}
+        open={Boolean(renameTarget)}
+        title="Renomear template"
+        initialName={renameTarget?.nome}
+        confirmLoading={isSaving}
+        onConfirm={(nome) => void handleRename(nome)}
+        onCancel={() => setRenameTarget(null)}
+      />
+
+      <section className="panel">
+        <div className="panel-header">
+          <div>
+            <p className="eyebrow">Biblioteca</p>
+            <h2>{templates.length} templates</h2>
+            <p className="section-subtitle">
+              Salve uma pesquisa existente como template pela tela de edição da pesquisa.
+            </p>
+          </div>
+          {canCreate && (
+            <div className="hero-actions">
+              <Link to="/surveys/new" className="btn primary small">
+                Criar pesquisa
+              </Link>
+            </div>
+          )}
+        </div>
+
+        {loading && <p>Carregando templates...</p>}
+        {error && <p className="error-text">{error}</p>}
+        {!loading && !error && templates.length === 0 && <p>Nenhum template salvo.</p>}
+
+        <div className="templates-grid">
+          {templates.map((template) => (
+            <article key={template.id}>
+              <div className="card-header">
+                <div>
+                  <p className="eyebrow">
+                    {template.questions.length} perguntas • atualizado em {formatDate(template.updatedAt)}
+                  </p>
+                  <h3>{template.nome}</h3>
+                  <p className="muted-text">{template.titulo}</p>
+                </div>
+                <div className="card-actions table-actions">
+                  <button
+                    className="btn ghost small"
+                    type="button"
+                    onClick={() => setPreviewId((prev) => (prev === template.id ? null : template.id))}
+                  >
+                    {previewId === template.id ? 'Ocultar' : 'Visualizar'}
+                  </button>
+                  {canManage && (
+                    <button className="btn ghost small" type="button" onClick={() => setRenameTarget(template)}>
+                      Renomear
+                    </button>
+                  )}
+                  {canCreate && (
+                    <Link to={`/surveys/new?template=${template.id}`} className="btn secondary small">
+                      Usar
+                    </Link>
+                  )}
+                  {canManage && (
+                    <button className="btn danger small" type="button" onClick={() => setDeleteTarget(template)}>
+                      Remover
+                    </button>
+                  )}
+                </div>
+              </div>
+              {previewId === template.id && (
+                <div className="questions-list">
+                  {template.descricao && <p className="muted-text">{template.descricao}</p>}
+                  {template.questions.map((question) => (
+                    <div key={`${template.id}-${question.ordem}-${question.texto}`} className="question-card">
+                      <p className="eyebrow">#{question.ordem}</p>
+                      <strong>{question.texto}</strong>
+                      <ul className="options-list">
+                        {question.options.map((option, index) => (
+                          <li key={`${option.texto}-${index}`} className="option-row">
+                            <span>{option.texto}</span>
+                            <div className="option-row__spacer" />
+                            <span className={`status-pill ${option.ativo ? 'success' : 'neutral'}`}>
+                              {option.ativo ? 'Ativa' : 'Inativa'}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </article>
+          ))}
+        </div>
+      </section>
+    </Layout>
+  )
+}
+
+export default TemplatesPage
@@ -0,0 +1,291 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import ConfirmModal from '../components/ConfirmModal'
+import Layout from '../components/Layout'
+import PasswordResetModal from '../components/PasswordResetModal'
+import UserFormModal from '../components/UserFormModal'
+import { useAuth } from '../hooks/useAuth'
+import { parseApiError, userApi } from '../services/api'
+import type { CreateUserPayload, User, UserRole } from '../types/api'
+import { formatDateTime } from '../utils/format'
+import { ROLE_LABELS } from '../utils/permissions'
+
+type StatusFilter = 'all' | 'active' | 'inactive'
+
+const UsersPage = () => {
+  const { user: currentUser } = useAuth()
+  const [users, setUsers] = useState<User[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string>()
+  const [toast, setToast] = useState<string>()
+  const [searchTerm, setSearchTerm] = useState('')
+  const [roleFilter, setRoleFilter] = useState<UserRole | ''>('')
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [formTarget, setFormTarget] = useState<User | 'new' | null>(null)
+  const [passwordTarget, setPasswordTarget] = useState<User | null>(null)
+  const [deactivateTarget, setDeactivateTarget] = useState<User | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [modalError, setModalError] = useState<string>()
+
+  const fetchUsers = useCallback(async () => {
+    setLoading(true)
+    setError(undefined)
+    try {
+      setUsers(await userApi.list())
+    } catch (err) {
+      setError(parseApiError(err))
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void fetchUsers()
+  }, [fetchUsers])
+
+  const filteredUsers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
+    return users
+      .filter((user) => !roleFilter || user.role === roleFilter)
+      .filter((user) => statusFilter === 'all' || user.ativo === (statusFilter === 'active'))
+      .filter(
+        (user) =>
+          !term || [user.username, user.nome, user.email].some((value) => value?.toLowerCase().includes(term)),
+      )
+      .sort((a, b) => a.username.localeCompare(b.username))
+  }, [users, searchTerm, roleFilter, statusFilter])
+
+  const isCurrentUser = (user: User) => user.username === currentUser?.username
+
+  const replaceUser = (updated: User) =>
+    setUsers((prev) => prev.map((user) => (user.id === updated.id ? updated : user)))
+
+  const closeModals = () => {
+    setFormTarget(null)
+    setPasswordTarget(null)
+    setDeactivateTarget(null)
+    setModalError(undefined)
+  }
+
+  const handleFormSubmit = async (payload: CreateUserPayload) => {
+    setSaving(true)
+    setModalError(undefined)
+    try {
+      if (formTarget && formTarget !== 'new') {
+        const { nome, email } = payload
+        // Papel e status da própria conta não mudam por aqui, para não deixar o sistema sem administrador.
+        const { role, ativo } = isCurrentUser(formTarget) ? formTarget : payload
+        replaceUser(await userApi.update(formTarget.id, { nome, email, role, ativo }))
+        setToast(`Usuário ${formTarget.username} atualizado.`)
+      } else {
+        const created = await userApi.create(payload)
+        setUsers((prev) => [...prev, created])
+        setToast(`Usuário ${created.username} criado.`)
+      }
+      closeModals()
+    } catch (err) {
+      setModalError(parseApiError(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePasswordReset = async (password: string) => {
+    if (!passwordTarget) return
+    setSaving(true)
+    setModalError(undefined)
+    try {
+      await userApi.resetPassword(passwordTarget.id, password)
+      setToast(`Senha de ${passwordTarget.username} redefinida.`)
+      closeModals()
+    } catch (err) {
+      setModalError(parseApiError(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeactivate = async () => {
+    if (!deactivateTarget) return
+    setSaving(true)
+    try {
+      replaceUser(await userApi.deactivate(deactivateTarget.id))
+      setToast(`Usuário ${deactivateTarget.username} desativado.`)
+      closeModals()
+    } catch (err) {
+      setError(parseApiError(err))
+      closeModals()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleActivate = async (user: User) => {
+    setError(undefined)
+    try {
+      replaceUser(await userApi.activate(user.id))
+      setToast(`Usuário ${user.username} reativado.`)
+    } catch (err) {
+      setError(parseApiError(err))
+    }
+  }
+
+  return (
+    <Layout title="Usuários" subtitle="Acesso ao backoffice">
+      <UserFormModal
+        key={formTarget === 'new' ? 'new' : formTarget?.id ?? 'closed'}
+        open={formTarget !== null}
+        user={formTarget && formTarget !== 'new' ? formTarget : undefined}
+        isSelf={formTarget !== null && formTarget !== 'new' && isCurrentUser(formTarget)}
+        saving={saving}
+        error={modalError}
+        onSubmit={(payload) => void handleFormSubmit(payload)}
+        onCancel={closeModals}
+      />
+      <PasswordResetModal
+        key={passwordTarget?.id ?? 'closed'}
+        user={passwordTarget}
+        saving={saving}
+        error={modalError}
+        onConfirm={(password) => void handlePasswordReset(password)}
+        onCancel={closeModals}
+      />
+      <ConfirmModal
+        open={Boolean(deactivateTarget)}
+        title="Desativar usuário"
+        description={`${deactivateTarget?.username ?? ''} não poderá mais entrar no backoffice até ser reativado.`}
+        confirmLabel="Desativar"
+        confirmLoading={saving}
+        onConfirm={() => void handleDeactivate()}
+        onCancel={closeModals}
+      />
+
+      {toast && (
+        <div className="toast">
+          <span>{toast}</span>
+          <button type="button" onClick={() => setToast(undefined)}>
+            ×
+          </button>
+        </div>
+      )}
+
+      <section className="panel">
+        <div className="panel-header">
+          <div>
+            <p className="eyebrow">Contas</p>
+            <h2>{users.length} usuários</h2>
+            <p className="section-subtitle">
+              Quem pode entrar no backoffice e o que cada papel pode fazer.
+            </p>
+          </div>
+          <div className="hero-actions">
+            <button className="btn primary small" type="button" onClick={() => setFormTarget('new')}>
+              Novo usuário
+            </button>
+          </div>
+        </div>
+        <div className="filter-group" style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }}>
+          <label>
+            <span>Papel</span>
+            <select value={roleFilter} onChange={(event) => setRoleFilter(event.target.value as UserRole | '')}>
+              <option value="">Todos</option>
+              {(Object.keys(ROLE_LABELS) as UserRole[]).map((role) => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Status</span>
+            <select
+              value={statusFilter}
+              onChange={(event) => setStatusFilter(event.target.value as StatusFilter)}
+            >
+              <option value="all">Todos</option>
+              <option value="active">Ativos</option>
+              <option value="inactive">Desativados</option>
+            </select>
+          </label>
+          <label>
+            <span>Buscar</span>
+            <input
+              type="search"
+              value={searchTerm}
+              onChange={(event) => setSearchTerm(event.target.value)}
+              placeholder="Login, nome ou e-mail"
+            />
+          </label>
+        </div>
+
+        {loading && <p>Carregando usuários...</p>}
+        {error && <p className="error-text">{error}</p>}
+        {!loading && !error && filteredUsers.length === 0 && <p>Nenhum usuário encontrado.</p>}
+
+        {filteredUsers.length > 0 && (
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>Usuário</th>
+                  <th>E-mail</th>
+                  <th className="text-center">Papel</th>
+                  <th className="text-center">Status</th>
+                  <th className="text-center">Último acesso</th>
+                  <th className="text-center">Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredUsers.map((user) => (
+                  <tr key={user.id}>
+                    <td>
+                      <strong>{user.username}</strong>
+                      {isCurrentUser(user) && <span className="muted-text"> (você)</span>}
+                      {user.nome && <p className="muted-text">{user.nome}</p>}
+                    </td>
+                    <td>{user.email || '—'}</td>
+                    <td className="text-center">{ROLE_LABELS[user.role]}</td>
+                    <td className="text-center">
+                      <span className={`status-pill ${user.ativo ? 'success' : 'neutral'}`}>
+                        {user.ativo ? 'Ativo' : 'Desativado'}
+                      </span>
+                    </td>
+                    <td className="text-center">{formatDateTime(user.lastLoginAt)}</td>
+                    <td className="table-actions text-center">
+                      <button className="btn ghost small" type="button" onClick={() => setFormTarget(user)}>
+                        Editar
+                      </button>
+                      <button className="btn ghost small" type="button" onClick={() => setPasswordTarget(user)}>
+                        Redefinir senha
+                      </button>
+                      {user.ativo ? (
+                        <button
+                          className="btn danger small"
+                          type="button"
+                          onClick={() => setDeactivateTarget(user)}
+                          disabled={isCurrentUser(user)}
+                          title={isCurrentUser(user) ? 'Você não pode desativar a própria conta.' : undefined}
+                        >
+                          Desativar
+                        </button>
+                      ) : (
+                        <button
+                          className="btn secondary small"
+                          type="button"
+                          onClick={() => void handleActivate(user)}
+                        >
+                          Reativar
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </Layout>
+  )
+}
+
+export default UsersPage
@@ -1,10 +1,15 @@
-import axios, { AxiosHeaders } from 'axios'
+import axios, { AxiosHeaders, type InternalAxiosRequestConfig } from 'axios'
 import type {
   ApiError,
+  AuditEntry,
+  AuditLogFilters,
   AuthResponse,
+  AuthUser,
+  CreateUserPayload,
   CreateOptionPayload,
   CreateQuestionPayload,
   CreateSurveyPayload,
+  CreateSurveyTemplatePayload,
   DashboardOverview,
   LoginPayload,
   Option,
@@ -14,12 +19,23 @@ import type {
   SurveyAudienceResponse,
   SurveyDashboardMetrics,
   SurveyDashboardResponse,
+  SurveyDraft,
+  SurveyDraftContent,
+  SurveyRule,
   SurveyStructure,
+  SurveyTemplate,
+  SurveyVersion,
   Vote,
   UpdateSurveyPayload,
+  UpdateSurveyTemplatePayload,
+  UpdateUserPayload,
+  User,
 } from '../types/api'
+import { normalizeRole } from '../utils/permissions'
+import { toArray } from '../utils/response'
+import { defaultTemplates } from './defaultTemplates'
 
-const generateCorrelationId = () => {
+export const generateCorrelationId = () => {
   if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
     return crypto.randomUUID()
   }
@@ -34,8 +50,51 @@ export const apiClient = axios.create({
 })
 
 const TOKEN_STORAGE_KEY = 'survey_token'
+const REFRESH_TOKEN_STORAGE_KEY = 'survey_refresh_token'
+const USER_STORAGE_KEY = 'survey_user'
+/** Disparado na janela sempre que o token muda (login, logout ou expiração). */
+export const AUTH_CHANGE_EVENT = 'survey-auth-change'
+const TEMPLATES_STORAGE_KEY = 'survey_templates'
+const VERSIONS_STORAGE_KEY = 'survey_versions'
+const DRAFTS_STORAGE_KEY = 'survey_drafts'
+/** Versões mantidas por pesquisa; as mais antigas saem primeiro. */
+const MAX_VERSIONS_PER_SURVEY = 30
 const loginRedirectPath = '/login'
+/** Endpoints que nunca disparam renovação de sessão, para não entrar em laço. */
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/refresh', '/auth/logout']
 let hasRedirectedForAuth = false
+let refreshPromise: Promise<string> | null = null
+
+type AuthRetryConfig = InternalAxiosRequestConfig & { _authRetried?: boolean }
+
+/**
+ * Resposta 403: a sessão continua válida, só falta permissão para o recurso.
+ * As telas mostram o estado de acesso negado no lugar do conteúdo.
+ */
+export class ForbiddenError extends Error {
+  readonly status = 403
+
+  constructor(message = 'Você não tem permissão para acessar este recurso.') {
+    super(message)
+    this.name = 'ForbiddenError'
+  }
+}
+
+export const isForbiddenError = (error: unknown): error is ForbiddenError => error instanceof ForbiddenError
+
+/** Outra aba gravou (ou descartou) o rascunho depois da revisão que esta aba conhece. */
+export class DraftConflictError extends Error {
+  readonly remote: SurveyDraft | null
+
+  constructor(remote: SurveyDraft | null) {
+    super('Este rascunho foi alterado em outra aba.')
+    this.remote = remote
+    this.name = 'DraftConflictError'
+  }
+}
+
+export const isDraftConflictError = (error: unknown): error is DraftConflictError =>
+  error instanceof DraftConflictError
 
 const decodeJwtPayload = (token: string) => {
   try {
@@ -55,10 +114,17 @@ const isTokenExpired = (token: string | null) => {
   return Number.isFinite(expMs) && Date.now() >= expMs
 }
 
+/** Caminho de login que devolve o usuário à rota informada depois de entrar. */
+export const buildLoginPath = (returnTo?: string) =>
+  returnTo && returnTo !== loginRedirectPath && !returnTo.startsWith(`${loginRedirectPath}?`)
+    ? `${loginRedirectPath}?returnTo=${encodeURIComponent(returnTo)}`
+    : loginRedirectPath
+
 const redirectToLogin = () => {
   if (typeof window === 'undefined' || hasRedirectedForAuth) return
   hasRedirectedForAuth = true
-  window.location.assign(loginRedirectPath)
+  const { pathname, search, hash } = window.location
+  window.location.assign(buildLoginPath(`${pathname}${search}${hash}`))
 }
 
 export const setAuthToken = (token: string | null) => {
@@ -68,8 +134,13 @@ export const setAuthToken = (token: string | null) => {
   } else {
     delete apiClient.defaults.headers.common.Authorization
     localStorage.removeItem(TOKEN_STORAGE_KEY)
+    localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY)
+    localStorage.removeItem(USER_STORAGE_KEY)
     hasRedirectedForAuth = false
   }
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(AUTH_CHANGE_EVENT))
+  }
 }
 
 const storedToken = typeof window !== 'undefined' ? localStorage.getItem(TOKEN_STORAGE_KEY) : null
@@ -77,23 +148,143 @@ if (storedToken) {
   apiClient.defaults.headers.common.Authorization = `Bearer ${storedToken}`
 }
 
-apiClient.interceptors.request.use((config) => {
+// `storage` só dispara nas outras abas: login, logout e renovações feitos lá chegam aqui na hora.
+// Chave null indica que o localStorage inteiro foi limpo.
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key !== TOKEN_STORAGE_KEY && event.key !== null) return
+    const token = localStorage.getItem(TOKEN_STORAGE_KEY)
+    if (token) {
+      apiClient.defaults.headers.common.Authorization = `Bearer ${token}`
+    } else {
+      delete apiClient.defaults.headers.common.Authorization
+    }
+    hasRedirectedForAuth = false
+    window.dispatchEvent(new Event(AUTH_CHANGE_EVENT))
+  })
+}
+
+const isAuthEndpoint = (url?: string) => AUTH_ENDPOINTS.some((endpoint) => url?.endsWith(endpoint))
+
+const getStoredRefreshToken = () =>
+  typeof window !== 'undefined' ? localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY) : null
+
+const extractAuthToken = (response: { data?: unknown; headers?: Record<string, unknown> }) => {
+  const headerToken = (response.headers?.authorization || response.headers?.Authorization) as string | undefined
+  const extractedHeaderToken =
+    headerToken && headerToken.toLowerCase().startsWith('bearer ')
+      ? headerToken.slice(7)
+      : headerToken
+  const dataObj = response.data as Record<string, string | undefined> | undefined
+  const dataToken =
+    dataObj?.accessToken ??
+    dataObj?.token ??
+    dataObj?.Authorization ??
+    dataObj?.authorization
+  return dataToken || extractedHeaderToken
+}
+
+/**
+ * Troca o refresh token por um novo token de acesso. Chamadas concorrentes
+ * compartilham a mesma renovação, e as requisições que esperam por ela são
+ * reenviadas com o token novo.
+ */
+const refreshSession = () => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = getStoredRefreshToken()
+      if (!refreshToken) {
+        throw new Error('Sessão expirada. Faça login novamente.')
+      }
+      const response = await apiClient.post<AuthResponse>('/auth/refresh', { refreshToken })
+      const token = extractAuthToken(response)
+      if (!token) {
+        throw new Error('Token não retornado pela API ao renovar a sessão.')
+      }
+      if (response.data?.refreshToken) {
+        localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, response.data.refreshToken)
+      }
+      setAuthToken(token)
+      return token
+    })().finally(() => {
+      refreshPromise = null
+    })
+  }
+  return refreshPromise
+}
+
+const endSession = () => {
+  setAuthToken(null)
+  redirectToLogin()
+  return Promise.reject(new Error('Sessão expirada. Faça login novamente.'))
+}
+
+/** Correlation IDs das escritas feitas nesta aba, para destacar no histórico o que partiu daqui. */
+const MAX_TRACKED_CORRELATION_IDS = 200
+const sentCorrelationIds: string[] = []
+
+const trackCorrelationId = (correlationId: string) => {
+  if (sentCorrelationIds.includes(correlationId)) return
+  sentCorrelationIds.push(correlationId)
+  if (sentCorrelationIds.length > MAX_TRACKED_CORRELATION_IDS) sentCorrelationIds.shift()
+}
+
+export const isOwnCorrelationId = (correlationId?: string | null) =>
+  Boolean(correlationId && sentCorrelationIds.includes(correlationId))
+
+/** Envia várias requisições com o mesmo X-Correlation-Id, para o histórico tratá-las como uma única ação. */
+const withCorrelationId = (correlationId?: string) =>
+  correlationId ? { headers: { 'X-Correlation-Id': correlationId } } : undefined
+
+apiClient.interceptors.request.use(async (config) => {
   const headers = AxiosHeaders.from(config.headers ?? {})
   if (!headers.has('X-Correlation-Id')) {
     headers.set('X-Correlation-Id', generateCorrelationId())
   }
+  if (config.method && config.method.toLowerCase() !== 'get') {
+    trackCorrelationId(String(headers.get('X-Correlation-Id')))
+  }
+  // Token vencido com refresh disponível: segura a requisição até a sessão ser renovada.
+  const token = authApi.getStoredToken()
+  if (token && isTokenExpired(token) && getStoredRefreshToken() && !isAuthEndpoint(config.url)) {
+    try {
+      headers.set('Authorization', `Bearer ${await refreshSession()}`)
+    } catch {
+      return endSession()
+    }
+  }
   config.headers = headers
   return config
 })
 
 apiClient.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
     const status = error?.response?.status
-    if (status === 401 || status === 403) {
-      setAuthToken(null)
-      redirectToLogin()
-      return Promise.reject(new Error('Sessão expirada. Faça login novamente.'))
+    const config = error?.config as AuthRetryConfig | undefined
+    if (status === 401 && config && !config._authRetried && !isAuthEndpoint(config.url)) {
+      config._authRetried = true
+      // Outra aba já renovou ou refez o login: basta repetir com o token atual.
+      const current = authApi.getStoredToken()
+      if (current && !isTokenExpired(current) && config.headers.get('Authorization') !== `Bearer ${current}`) {
+        config.headers.set('Authorization', `Bearer ${current}`)
+        return apiClient(config)
+      }
+      if (!getStoredRefreshToken()) return endSession()
+      try {
+        const token = await refreshSession()
+        config.headers.set('Authorization', `Bearer ${token}`)
+      } catch {
+        return endSession()
+      }
+      return apiClient(config)
+    }
+    if (status === 401 && !config?.url?.endsWith('/auth/login')) {
+      return endSession()
+    }
+    if (status === 403 && !isAuthEndpoint(config?.url)) {
+      const data = error.response?.data as ApiError | undefined
+      return Promise.reject(new ForbiddenError(data?.message || undefined))
     }
     return Promise.reject(error)
   },
@@ -128,6 +319,14 @@ export const parseApiError = (error: unknown): string => {
   return 'Erro inesperado. Tente novamente.'
 }
 
+/** Aguarda todas as requisições (mesmo após uma falha) e só então rejeita com o primeiro erro. */
+const settleAll = async <T>(requests: Array<Promise<T>>) => {
+  const results = await Promise.allSettled(requests)
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+  if (failure) throw failure.reason
+  return results.map((result) => (result as PromiseFulfilledResult<T>).value)
+}
+
 export const surveyApi = {
   async list(params?: {
     ativo?: boolean
@@ -145,16 +344,20 @@ export const surveyApi = {
     const response = await apiClient.post<Survey>('/surveys', payload)
     return response.data
   },
-  async update(id: number, payload: UpdateSurveyPayload) {
-    const response = await apiClient.put<Survey>(`/surveys/${id}`, payload)
+  async update(id: number, payload: UpdateSurveyPayload, correlationId?: string) {
+    const response = await apiClient.put<Survey>(`/surveys/${id}`, payload, withCorrelationId(correlationId))
     return response.data
   },
-  async restore(id: number) {
-    const response = await apiClient.patch<Survey>(`/surveys/${id}/restore`)
+  async restore(id: number, correlationId?: string) {
+    const response = await apiClient.patch<Survey>(
+      `/surveys/${id}/restore`,
+      undefined,
+      withCorrelationId(correlationId),
+    )
     return response.data
   },
-  async remove(id: number) {
-    await apiClient.delete(`/surveys/${id}`)
+  async remove(id: number, correlationId?: string) {
+    await apiClient.delete(`/surveys/${id}`, withCorrelationId(correlationId))
   },
   async getStructure(
     id: number,
@@ -172,6 +375,10 @@ export const surveyApi = {
     })
     return response.data
   },
+  async updateRules(id: number, rules: SurveyRule[]) {
+    const response = await apiClient.put<SurveyRule[]>(`/surveys/${id}/rules`, rules)
+    return response.data
+  },
   async export(id: number, options?: { includeDeleted?: boolean }) {
     const response = await apiClient.get<Blob>(`/surveys/${id}/export`, {
       params: { includeDeleted: options?.includeDeleted ?? true },
@@ -201,13 +408,26 @@ export const questionApi = {
     const response = await apiClient.post<Question>('/questions', payload)
     return response.data
   },
-  async update(id: number, payload: CreateQuestionPayload) {
-    const response = await apiClient.put<Question>(`/questions/${id}`, payload)
+  async update(id: number, payload: CreateQuestionPayload, correlationId?: string) {
+    const response = await apiClient.put<Question>(`/questions/${id}`, payload, withCorrelationId(correlationId))
     return response.data
   },
   async remove(id: number) {
     await apiClient.delete(`/questions/${id}`)
   },
+  /** Persiste a nova ordem de várias perguntas de uma vez; rejeita se qualquer atualização falhar. */
+  async reorder(surveyId: number, questions: Array<Pick<Question, 'id' | 'texto' | 'ordem' | 'tipo'>>) {
+    const correlationId = generateCorrelationId()
+    return settleAll(
+      questions.map((question) =>
+        questionApi.update(
+          question.id,
+          { texto: question.texto, ordem: question.ordem, tipo: question.tipo, surveyId },
+          correlationId,
+        ),
+      ),
+    )
+  },
 }
 
 export const optionApi = {
@@ -226,33 +446,42 @@ export const optionApi = {
     const response = await apiClient.post<Option>('/options', payload)
     return response.data
   },
-  async update(id: number, payload: CreateOptionPayload) {
-    const response = await apiClient.put<Option>(`/options/${id}`, payload)
+  async update(id: number, payload: CreateOptionPayload, correlationId?: string) {
+    const response = await apiClient.put<Option>(`/options/${id}`, payload, withCorrelationId(correlationId))
     return response.data
   },
   async remove(id: number) {
     await apiClient.delete(`/options/${id}`)
   },
+  async reorder(options: Array<Pick<Option, 'id' | 'texto' | 'ativo' | 'questionId' | 'ordem'>>) {
+    const correlationId = generateCorrelationId()
+    return settleAll(
+      options.map((option) =>
+        optionApi.update(
+          option.id,
+          { texto: option.texto, ativo: option.ativo, questionId: option.questionId, ordem: option.ordem },
+          correlationId,
+        ),
+      ),
+    )
+  },
 }
 
 export const authApi = {
   async login(payload: LoginPayload) {
     const response = await apiClient.post<AuthResponse>('/auth/login', payload)
-    const headerToken = response.headers?.authorization || response.headers?.Authorization
-    const extractedHeaderToken =
-      headerToken && headerToken.toLowerCase().startsWith('bearer ')
-        ? headerToken.slice(7)
-        : headerToken
-    const dataObj = response.data as unknown as Record<string, string | undefined>
-    const dataToken =
-      dataObj?.accessToken ??
-      dataObj?.token ??
-      dataObj?.Authorization ??
-      dataObj?.authorization
-    const token = dataToken || extractedHeaderToken
+    const token = extractAuthToken(response)
     if (!token) {
       throw new Error('Token não retornado pela API. Verifique o endpoint de login.')
     }
+    // Guardado antes do token para que quem ouve AUTH_CHANGE_EVENT já leia o papel certo.
+    localStorage.setItem(
+      USER_STORAGE_KEY,
+      JSON.stringify({ username: response.data.username ?? payload.username, role: response.data.role }),
+    )
+    if (response.data.refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, response.data.refreshToken)
+    }
     setAuthToken(token)
     return { ...response.data, token }
   },
@@ -270,8 +499,38 @@ export const authApi = {
     return typeof window !== 'undefined' ? localStorage.getItem(TOKEN_STORAGE_KEY) : null
   },
   isTokenExpired,
+  /** Indica se a sessão pode ser renovada sem novo login. */
+  canRefresh() {
+    return Boolean(getStoredRefreshToken())
+  },
+  refresh: refreshSession,
+  /** Usuário da sessão atual: claims do token, com o papel da resposta de login como alternativa. */
+  getCurrentUser(): AuthUser | null {
+    const token = authApi.getStoredToken()
+    if (!token) return null
+    const claims = (decodeJwtPayload(token) ?? {}) as Record<string, unknown>
+    let stored: { username?: string; role?: string } = {}
+    try {
+      stored = JSON.parse(localStorage.getItem(USER_STORAGE_KEY) ?? '{}')
+    } catch {
+      stored = {}
+    }
+    const claimRole = claims.role ?? claims.roles ?? claims.authorities
+    const username = [claims.preferred_username, claims.username, claims.sub, stored.username].find(
+      (value): value is string => typeof value === 'string' && value.length > 0,
+    )
+    const exp = Number(claims.exp)
+    return {
+      username,
+      role: normalizeRole(claimRole ?? stored.role),
+      claims,
+      expiresAt: Number.isFinite(exp) && exp > 0 ? exp * 1000 : undefined,
+    }
+  },
   ensureValidSession() {
     const token = authApi.getStoredToken()
+    // Com refresh token, a próxima requisição renova a sessão; não há por que derrubar a tela.
+    if (token && getStoredRefreshToken()) return token
     if (isTokenExpired(token)) {
       setAuthToken(null)
       redirectToLogin()
@@ -281,6 +540,48 @@ export const authApi = {
   },
 }
 
+/** O backend pode devolver o papel como "ROLE_ADMIN"; a tela trabalha sempre com o nome curto. */
+const normalizeUser = (user: User): User => ({ ...user, role: normalizeRole(user.role) })
+
+export const userApi = {
+  async list() {
+    const response = await apiClient.get<User[]>('/users')
+    return toArray<User>(response.data).map(normalizeUser)
+  },
+  async create(payload: CreateUserPayload) {
+    const response = await apiClient.post<User>('/users', payload)
+    return normalizeUser(response.data)
+  },
+  async update(id: number, payload: UpdateUserPayload) {
+    const response = await apiClient.put<User>(`/users/${id}`, payload)
+    return normalizeUser(response.data)
+  },
+  async deactivate(id: number) {
+    const response = await apiClient.patch<User>(`/users/${id}/deactivate`)
+    return normalizeUser(response.data)
+  },
+  async activate(id: number) {
+    const response = await apiClient.patch<User>(`/users/${id}/activate`)
+    return normalizeUser(response.data)
+  },
+  async resetPassword(id: number, password: string) {
+    await apiClient.put(`/users/${id}/password`, { password })
+  },
+}
+
+export const auditApi = {
+  /** Uma página do histórico, mais recentes primeiro; `hasMore` indica que há entradas mais antigas. */
+  async list(filters: AuditLogFilters = {}, { page = 0, size = 100 }: { page?: number; size?: number } = {}) {
+    const response = await apiClient.get<{ content?: AuditEntry[]; totalPages?: number } | AuditEntry[]>(
+      '/audit-logs',
+      { params: { ...filters, page, size, sort: 'timestamp,desc' } },
+    )
+    const entries = toArray<AuditEntry>(response.data)
+    const totalPages = Array.isArray(response.data) ? undefined : response.data.totalPages
+    return { entries, hasMore: totalPages !== undefined ? page + 1 < totalPages : entries.length === size }
+  },
+}
+
 export const dashboardApi = {
   async getOverview() {
     const response = await apiClient.get<DashboardOverview>('/dashboard/overview')
@@ -456,12 +757,16 @@ export const voteApi = {
     page = 0,
     size = 50,
     includeDeleted,
+    from,
+    to,
   }: {
     surveyId: number
     questionId?: number
     page?: number
     size?: number
     includeDeleted?: boolean
+    from?: string
+    to?: string
   }) {
     const response = await apiClient.get<{ content?: Vote[] } | Vote[]>(`/surveys/${surveyId}/votes`, {
       params: {
@@ -469,8 +774,295 @@ export const voteApi = {
         page,
         size,
         includeDeleted,
+        from,
+        to,
       },
     })
     return response.data
   },
+  /** Percorre as páginas até o fim ou até `maxPages`; `truncated` indica que o limite chegou antes do fim. */
+  async listAll({
+    surveyId,
+    questionId,
+    includeDeleted,
+    from,
+    to,
+    pageSize = 500,
+    maxPages = 50,
+  }: {
+    surveyId: number
+    questionId?: number
+    includeDeleted?: boolean
+    from?: string
+    to?: string
+    pageSize?: number
+    maxPages?: number
+  }) {
+    const votes: Vote[] = []
+    let truncated = true
+    for (let page = 0; page < maxPages; page += 1) {
+      const data = await voteApi.list({ surveyId, questionId, page, size: pageSize, includeDeleted, from, to })
+      const content = toArray<Vote>(data)
+      votes.push(...content)
+      const totalPages = Array.isArray(data) ? undefined : (data as { totalPages?: number }).totalPages
+      const reachedEnd =
+        totalPages !== undefined ? page + 1 >= totalPages : content.length < pageSize
+      if (reachedEnd) {
+        truncated = false
+        break
+      }
+    }
+    return { votes, truncated }
+  },
+}
+
+const readStoredTemplates = (): SurveyTemplate[] => {
+  if (typeof window === 'undefined') return []
+  const raw = localStorage.getItem(TEMPLATES_STORAGE_KEY)
+  if (raw === null) {
+    const now = new Date().toISOString()
+    const seeded = defaultTemplates.map((template) => ({
+      ...template,
+      id: generateCorrelationId(),
+      createdAt: now,
+      updatedAt: now,
+    }))
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(seeded))
+    return seeded
+  }
+  try {
+    return toArray<SurveyTemplate>(JSON.parse(raw))
+  } catch {
+    return []
+  }
+}
+
+const writeStoredTemplates = (templates: SurveyTemplate[]) => {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates))
+}
+
+// Persistência local com a mesma assinatura assíncrona das demais APIs, para
+// que um endpoint /templates possa substituir o localStorage sem mudar as telas.
+export const templateApi = {
+  async list() {
+    return readStoredTemplates().sort((a, b) => a.nome.localeCompare(b.nome, 'pt-BR'))
+  },
+  async get(id: string) {
+    const template = readStoredTemplates().find((item) => item.id === id)
+    if (!template) {
+      throw new Error('Template não encontrado.')
+    }
+    return template
+  },
+  async create(payload: CreateSurveyTemplatePayload) {
+    const now = new Date().toISOString()
+    const template: SurveyTemplate = {
+      ...payload,
+      id: generateCorrelationId(),
+      createdAt: now,
+      updatedAt: now,
+    }
+    writeStoredTemplates([...readStoredTemplates(), template])
+    return template
+  },
+  async update(id: string, payload: UpdateSurveyTemplatePayload) {
+    const templates = readStoredTemplates()
+    const current = templates.find((item) => item.id === id)
+    if (!current) {
+      throw new Error('Template não encontrado.')
+    }
+    const updated: SurveyTemplate = { ...current, ...payload, updatedAt: new Date().toISOString() }
+    writeStoredTemplates(templates.map((item) => (item.id === id ? updated : item)))
+    return updated
+  },
+  async remove(id: string) {
+    writeStoredTemplates(readStoredTemplates().filter((item) => item.id !== id))
+  },
+  /** Regras de ramificação não entram no template: apontam para ids da pesquisa de origem. */
+  fromStructure(structure: SurveyStructure, nome: string): CreateSurveyTemplatePayload {
+    return {
+      nome,
+      titulo: structure.titulo,
+      descricao: structure.descricao ?? null,
+      sourceSurveyId: structure.id,
+      questions: [...structure.questions]
+        .sort((a, b) => a.ordem - b.ordem)
+        .map((question) => ({
+          texto: question.texto,
+          ordem: question.ordem,
+          tipo: question.tipo,
+          options: (question.options ?? []).map((option) => ({
+            texto: option.texto,
+            ativo: option.ativo,
+          })),
+        })),
+    }
+  },
+}
+
+const readStoredVersions = (): Record<string, SurveyVersion[]> => {
+  if (typeof window === 'undefined') return {}
+  try {
+    const parsed = JSON.parse(localStorage.getItem(VERSIONS_STORAGE_KEY) ?? '{}')
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Com o armazenamento do navegador cheio, descarta a metade mais antiga do histórico
+ * de cada pesquisa e tenta de novo antes de desistir.
+ */
+const writeStoredVersions = (versions: Record<string, SurveyVersion[]>) => {
+  try {
+    localStorage.setItem(VERSIONS_STORAGE_KEY, JSON.stringify(versions))
+    return
+  } catch {
+    // segue para a tentativa reduzida
+  }
+  const trimmed = Object.fromEntries(
+    Object.entries(versions).map(([surveyId, list]) => [surveyId, list.slice(-Math.ceil(list.length / 2))]),
+  )
+  try {
+    localStorage.setItem(VERSIONS_STORAGE_KEY, JSON.stringify(trimmed))
+  } catch {
+    throw new Error('Sem espaço no navegador para guardar o histórico de versões.')
+  }
+}
+
+/** Só o que o respondente vê; datas de auditoria não contam como mudança de versão. */
+const structureFingerprint = (structure: SurveyStructure) =>
+  JSON.stringify({
+    titulo: structure.titulo,
+    descricao: structure.descricao ?? null,
+    ativo: structure.ativo,
+    dataValidade: structure.dataValidade ?? null,
+    questions: [...structure.questions]
+      .sort((a, b) => a.id - b.id)
+      .map((question) => ({
+        id: question.id,
+        texto: question.texto,
+        ordem: question.ordem,
+        tipo: question.tipo ?? null,
+        options: [...(question.options ?? [])]
+          .sort((a, b) => a.id - b.id)
+          .map(({ id, texto, ativo, ordem }) => ({ id, texto, ativo, ordem: ordem ?? null })),
+      })),
+    rules: structure.rules ?? [],
+  })
+
+// Mesmo modelo dos templates: persistência local atrás de uma API assíncrona,
+// pronta para ser trocada por um endpoint de versões. Enquanto ele não existe, o
+// histórico é deste navegador: alterações feitas em outro lugar aparecem como uma
+// versão "Alterada fora desta tela" na próxima visita.
+export const versionApi = {
+  async list(surveyId: number) {
+    return [...(readStoredVersions()[surveyId] ?? [])].sort((a, b) => b.number - a.number)
+  },
+  /** Registra a estrutura como nova versão, a menos que seja idêntica à última. */
+  async record(structure: SurveyStructure, reason: string, createdBy?: string | null) {
+    const stored = readStoredVersions()
+    const versions = stored[structure.id] ?? []
+    const latest = versions[versions.length - 1]
+    if (latest && structureFingerprint(latest.structure) === structureFingerprint(structure)) {
+      return null
+    }
+    const version: SurveyVersion = {
+      id: generateCorrelationId(),
+      surveyId: structure.id,
+      number: (latest?.number ?? 0) + 1,
+      createdAt: new Date().toISOString(),
+      createdBy: createdBy ?? null,
+      reason,
+      structure,
+    }
+    stored[structure.id] = [...versions, version].slice(-MAX_VERSIONS_PER_SURVEY)
+    writeStoredVersions(stored)
+    return version
+  },
+}
+
+/** Identifica esta aba nos rascunhos gravados. */
+export const TAB_ID = generateCorrelationId()
+
+const readStoredDrafts = (): Record<string, SurveyDraft> => {
+  if (typeof window === 'undefined') return {}
+  try {
+    const parsed = JSON.parse(localStorage.getItem(DRAFTS_STORAGE_KEY) ?? '{}')
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+const writeStoredDrafts = (drafts: Record<string, SurveyDraft>) => {
+  localStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts))
+}
+
+type SaveDraftOptions = {
+  /** Sem id, cria um rascunho novo. */
+  id?: string
+  /** Revisão em que esta aba se baseou; se a gravada for outra, a gravação falha com DraftConflictError. */
+  baseRevision?: number
+  /** Sobrescreve mesmo que outra aba tenha gravado depois. */
+  force?: boolean
+}
+
+export const draftApi = {
+  /** Rascunhos do usuário logado, mais recentes primeiro. */
+  async list() {
+    const owner = authApi.getCurrentUser()?.username ?? null
+    return Object.values(readStoredDrafts())
+      .filter((draft) => (draft.owner ?? null) === owner)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  },
+  async get(id: string) {
+    const draft = readStoredDrafts()[id]
+    if (!draft) {
+      throw new Error('Rascunho não encontrado.')
+    }
+    return draft
+  },
+  async save(content: SurveyDraftContent, { id, baseRevision = 0, force = false }: SaveDraftOptions = {}) {
+    const drafts = readStoredDrafts()
+    const stored = id ? drafts[id] : undefined
+    if (id && !force && (stored?.revision ?? 0) !== baseRevision) {
+      throw new DraftConflictError(stored ?? null)
+    }
+    // Um rascunho existente mantém o dono: a gravação ao sair da página pode rodar já sem sessão.
+    const owner = stored?.owner ?? authApi.getCurrentUser()?.username
+    if (!owner) {
+      throw new Error('Sessão encerrada: o rascunho não foi gravado.')
+    }
+    const now = new Date().toISOString()
+    const draft: SurveyDraft = {
+      titulo: content.titulo,
+      descricao: content.descricao,
+      ativo: content.ativo,
+      dataValidade: content.dataValidade,
+      questions: content.questions,
+      id: id ?? generateCorrelationId(),
+      owner,
+      revision: Math.max(stored?.revision ?? 0, baseRevision) + 1,
+      savedBy: TAB_ID,
+      createdAt: stored?.createdAt ?? now,
+      updatedAt: now,
+    }
+    writeStoredDrafts({ ...drafts, [draft.id]: draft })
+    return draft
+  },
+  async remove(id: string) {
+    const drafts = readStoredDrafts()
+    delete drafts[id]
+    writeStoredDrafts(drafts)
+  },
+  /** Avisa quando outra aba grava ou descarta rascunhos. Devolve a função que cancela a inscrição. */
+  subscribe(listener: () => void) {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === DRAFTS_STORAGE_KEY || event.key === null) listener()
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  },
 }
@@ -0,0 +1,36 @@
+import type { CreateSurveyTemplatePayload } from '../types/api'
+
+const SUPERMARKET_OPTIONS = [
+  'Supermercado NovaVida',
+  'Supermercado PreçoBom',
+  'Supermercado Econômico+',
+  'Supermercado FamíliaMax',
+  'Supermercado UltraMarket',
+]
+
+const SUPERMARKET_QUESTIONS = [
+  'Qual supermercado você considera mais organizado e limpo nas áreas internas?',
+  'Qual supermercado oferece a melhor limpeza e higienização dos banheiros?',
+  'Qual supermercado tem o melhor estacionamento em termos de espaço, acesso e vagas disponíveis?',
+  'Qual supermercado possui a garagem mais segura e bem organizada?',
+  'Em qual supermercado o setor de hortifrúti oferece melhor qualidade e apresentação dos produtos?',
+  'Qual supermercado oferece o melhor atendimento no setor de açougue?',
+  'Qual supermercado possui a melhor organização nas gôndolas e prateleiras?',
+  'Em qual supermercado você encontra filas mais rápidas e caixas mais eficientes?',
+  'Em qual supermercado você percebe maior variedade de produtos?',
+  'Qual supermercado você considera, no geral, o melhor para fazer compras?',
+]
+
+export const defaultTemplates: CreateSurveyTemplatePayload[] = [
+  {
+    nome: 'Satisfação – Supermercados',
+    titulo: 'Satisfação dos Clientes – Rede de Supermercados',
+    descricao:
+      'Esta pesquisa tem como objetivo avaliar a satisfação dos clientes em diferentes áreas dos supermercados. Selecione o supermercado que melhor representa sua opinião para cada item.',
+    questions: SUPERMARKET_QUESTIONS.map((texto, index) => ({
+      texto,
+      ordem: index + 1,
+      options: SUPERMARKET_OPTIONS.map((optionTexto) => ({ texto: optionTexto, ativo: true })),
+    })),
+  },
+]
@@ -0,0 +1,148 @@
+import type { Survey, UpdateSurveyPayload } from '../types/api'
+import { buildZip, downloadBlob } from '../utils/export'
+import { generateCorrelationId, parseApiError, surveyApi } from './api'
+
+export type BulkSurveyAction = 'activate' | 'deactivate' | 'delete' | 'restore' | 'export' | 'expiry'
+
+export type BulkItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'skipped'
+
+export type BulkItem = {
+  survey: Survey
+  status: BulkItemStatus
+  /** Motivo de o item não se aplicar à ação (status `skipped`). */
+  skipReason?: string
+  error?: string
+}
+
+export type BulkRunState = {
+  action: BulkSurveyAction
+  /** Nova validade (ISO) da ação `expiry`; `null` remove a validade. */
+  dataValidade?: string | null
+  /** Compartilhado por todas as requisições, para o histórico agrupar a execução. */
+  correlationId: string
+  items: BulkItem[]
+  status: 'idle' | 'running' | 'done' | 'failed'
+}
+
+type ProgressListener = (state: BulkRunState) => void
+
+type ExportedFile = { name: string; data: Uint8Array }
+
+export const BULK_ACTION_LABELS: Record<BulkSurveyAction, string> = {
+  activate: 'Ativar',
+  deactivate: 'Desativar',
+  delete: 'Remover',
+  restore: 'Restaurar',
+  export: 'Exportar',
+  expiry: 'Alterar validade',
+}
+
+const skipReason = (action: BulkSurveyAction, survey: Survey) => {
+  if (action === 'export') return undefined
+  if (action === 'restore') return survey.deletedAt ? undefined : 'Não está removida'
+  if (survey.deletedAt) return 'Removida'
+  if (action === 'activate' && survey.ativo) return 'Já está ativa'
+  if (action === 'deactivate' && !survey.ativo) return 'Já está inativa'
+  return undefined
+}
+
+export const planBulkAction = (
+  action: BulkSurveyAction,
+  surveys: Survey[],
+  dataValidade?: string | null,
+): BulkRunState => ({
+  action,
+  dataValidade,
+  correlationId: generateCorrelationId(),
+  items: surveys.map((survey) => {
+    const reason = skipReason(action, survey)
+    return reason ? { survey, status: 'skipped', skipReason: reason } : { survey, status: 'pending' }
+  }),
+  status: 'idle',
+})
+
+const toUpdatePayload = (survey: Survey, changes: Partial<UpdateSurveyPayload>): UpdateSurveyPayload => ({
+  titulo: survey.titulo,
+  descricao: survey.descricao ?? null,
+  ativo: survey.ativo,
+  dataValidade: survey.dataValidade ?? null,
+  ...changes,
+})
+
+const applyToSurvey = async (state: BulkRunState, survey: Survey, exported: ExportedFile[]) => {
+  switch (state.action) {
+    case 'activate':
+    case 'deactivate':
+      await surveyApi.update(
+        survey.id,
+        toUpdatePayload(survey, { ativo: state.action === 'activate' }),
+        state.correlationId,
+      )
+      return
+    case 'expiry':
+      await surveyApi.update(
+        survey.id,
+        toUpdatePayload(survey, { dataValidade: state.dataValidade ?? null }),
+        state.correlationId,
+      )
+      return
+    case 'delete':
+      await surveyApi.remove(survey.id, state.correlationId)
+      return
+    case 'restore':
+      await surveyApi.restore(survey.id, state.correlationId)
+      return
+    case 'export': {
+      const { blob, filename } = await surveyApi.export(survey.id, { includeDeleted: true })
+      const name = filename || `survey-${survey.id}.xlsx`
+      const taken = exported.some((file) => file.name === name)
+      exported.push({ name: taken ? `${survey.id}-${name}` : name, data: new Uint8Array(await blob.arrayBuffer()) })
+    }
+  }
+}
+
+/**
+ * Aplica a ação a cada pesquisa pendente, uma por vez. Uma falha não interrompe
+ * as demais; chamar de novo repete apenas os itens que falharam. A exportação
+ * baixa um único .zip no fim, já que o navegador bloqueia downloads em sequência.
+ */
+export const runBulkAction = async (
+  initial: BulkRunState,
+  onProgress?: ProgressListener,
+): Promise<BulkRunState> => {
+  let state: BulkRunState = {
+    ...initial,
+    status: 'running',
+    items: initial.items.map((item) =>
+      item.status === 'failed' ? { ...item, status: 'pending', error: undefined } : item,
+    ),
+  }
+  const update = (index: number, changes: Partial<BulkItem>) => {
+    state = {
+      ...state,
+      items: state.items.map((item, itemIndex) => (itemIndex === index ? { ...item, ...changes } : item)),
+    }
+    onProgress?.(state)
+  }
+  onProgress?.(state)
+  const exported: ExportedFile[] = []
+
+  for (let index = 0; index < state.items.length; index += 1) {
+    const item = state.items[index]
+    if (item.status !== 'pending') continue
+    update(index, { status: 'running' })
+    try {
+      await applyToSurvey(state, item.survey, exported)
+      update(index, { status: 'done' })
+    } catch (err) {
+      update(index, { status: 'failed', error: parseApiError(err) })
+    }
+  }
+
+  if (exported.length > 0) {
+    downloadBlob(buildZip(exported), `pesquisas-${new Date().toISOString().slice(0, 10)}.zip`)
+  }
+  state = { ...state, status: state.items.some((item) => item.status === 'failed') ? 'failed' : 'done' }
+  onProgress?.(state)
+  return state
+}
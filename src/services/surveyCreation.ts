@@ -0,0 +1,200 @@
+import type { CreateSurveyPayload, QuestionType, SurveyDraftContent } from '../types/api'
+import { optionApi, parseApiError, questionApi, surveyApi } from './api'
+
+export type SurveyCreationInput = {
+  survey: CreateSurveyPayload
+  questions: Array<{
+    texto: string
+    ordem: number
+    tipo?: QuestionType
+    options: Array<{ texto: string; ativo: boolean }>
+  }>
+}
+
+export type CreationStepStatus = 'pending' | 'running' | 'done' | 'failed' | 'rolledBack'
+
+export type CreationStep = {
+  key: string
+  kind: 'survey' | 'question' | 'option'
+  label: string
+  questionIndex?: number
+  optionIndex?: number
+  createdId?: number
+  status: CreationStepStatus
+  error?: string
+}
+
+export type SurveyCreationState = {
+  input: SurveyCreationInput
+  steps: CreationStep[]
+  surveyId?: number
+  status: 'idle' | 'running' | 'done' | 'failed' | 'rollingBack' | 'rolledBack'
+  error?: string
+}
+
+type ProgressListener = (state: SurveyCreationState) => void
+
+const truncate = (text: string, max = 60) => (text.length > max ? `${text.slice(0, max)}…` : text)
+
+export const planSurveyCreation = (input: SurveyCreationInput): SurveyCreationState => {
+  const steps: CreationStep[] = [
+    { key: 'survey', kind: 'survey', label: `Pesquisa "${truncate(input.survey.titulo)}"`, status: 'pending' },
+  ]
+  input.questions.forEach((question, questionIndex) => {
+    steps.push({
+      key: `question-${questionIndex}`,
+      kind: 'question',
+      label: `Pergunta #${question.ordem}: ${truncate(question.texto)}`,
+      questionIndex,
+      status: 'pending',
+    })
+    question.options.forEach((option, optionIndex) => {
+      if (!option.texto.trim()) return
+      steps.push({
+        key: `option-${questionIndex}-${optionIndex}`,
+        kind: 'option',
+        label: `Opção "${truncate(option.texto, 40)}"`,
+        questionIndex,
+        optionIndex,
+        status: 'pending',
+      })
+    })
+  })
+  return { input, steps, status: 'idle' }
+}
+
+/** Plano de criação a partir do rascunho do editor; opções sem texto ficam de fora. */
+export const planDraftCreation = (draft: SurveyDraftContent) =>
+  planSurveyCreation({
+    survey: {
+      titulo: draft.titulo.trim(),
+      descricao: draft.descricao.trim() || null,
+      ativo: draft.ativo,
+      dataValidade: draft.dataValidade ? new Date(draft.dataValidade).toISOString() : null,
+    },
+    questions: draft.questions.map((question) => ({
+      texto: question.texto.trim(),
+      ordem: question.ordem,
+      tipo: question.tipo,
+      options: question.options
+        .filter((option) => option.texto.trim())
+        .map((option) => ({ texto: option.texto.trim(), ativo: option.ativo })),
+    })),
+  })
+
+const findQuestionId = (steps: CreationStep[], questionIndex?: number) =>
+  steps.find((step) => step.kind === 'question' && step.questionIndex === questionIndex)?.createdId
+
+const hasCreatedId = (step: CreationStep): step is CreationStep & { createdId: number } =>
+  step.createdId !== undefined
+
+/**
+ * Executa (ou retoma) os passos pendentes em ordem. Passos já concluídos ou desfeitos
+ * são pulados, então chamar de novo após uma falha continua do ponto em que parou.
+ */
+export const runSurveyCreation = async (
+  initial: SurveyCreationState,
+  onProgress?: ProgressListener,
+): Promise<SurveyCreationState> => {
+  let state: SurveyCreationState = {
+    ...initial,
+    status: 'running',
+    error: undefined,
+    steps: initial.steps.map((step) =>
+      step.status === 'failed' ? { ...step, status: 'pending', error: undefined } : step,
+    ),
+  }
+  const update = (index: number, changes: Partial<CreationStep>, stateChanges?: Partial<SurveyCreationState>) => {
+    state = {
+      ...state,
+      ...stateChanges,
+      steps: state.steps.map((step, stepIndex) => (stepIndex === index ? { ...step, ...changes } : step)),
+    }
+    onProgress?.(state)
+  }
+  onProgress?.(state)
+
+  for (let index = 0; index < state.steps.length; index += 1) {
+    const step = state.steps[index]
+    if (step.status === 'done' || step.status === 'rolledBack') continue
+    update(index, { status: 'running' })
+    try {
+      if (step.kind === 'survey') {
+        const created = await surveyApi.create(state.input.survey)
+        update(index, { status: 'done', createdId: created.id }, { surveyId: created.id })
+      } else if (step.kind === 'question') {
+        const { surveyId } = state
+        if (surveyId === undefined) throw new Error('A pesquisa ainda não foi criada.')
+        const question = state.input.questions[step.questionIndex ?? 0]
+        const created = await questionApi.create({
+          texto: question.texto,
+          ordem: question.ordem,
+          tipo: question.tipo,
+          surveyId,
+        })
+        update(index, { status: 'done', createdId: created.id })
+      } else {
+        const question = state.input.questions[step.questionIndex ?? 0]
+        const option = question.options[step.optionIndex ?? 0]
+        const questionId = findQuestionId(state.steps, step.questionIndex)
+        if (questionId === undefined) throw new Error('A pergunta desta opção ainda não foi criada.')
+        const created = await optionApi.create({ texto: option.texto, ativo: option.ativo, questionId })
+        update(index, { status: 'done', createdId: created.id })
+      }
+    } catch (err) {
+      const message = parseApiError(err)
+      update(index, { status: 'failed', error: message }, { status: 'failed', error: message })
+      return state
+    }
+  }
+
+  state = { ...state, status: 'done' }
+  onProgress?.(state)
+  return state
+}
+
+/**
+ * Remove o que já foi criado: perguntas (na ordem inversa) e depois a pesquisa. A API só
+ * tem remoção lógica, então a pesquisa continua entre as removidas e pode ser restaurada.
+ */
+export const rollbackSurveyCreation = async (
+  initial: SurveyCreationState,
+  onProgress?: ProgressListener,
+): Promise<SurveyCreationState> => {
+  let state: SurveyCreationState = { ...initial, status: 'rollingBack', error: undefined }
+  const markRolledBack = (predicate: (step: CreationStep) => boolean) => {
+    state = {
+      ...state,
+      steps: state.steps.map((step) => (predicate(step) ? { ...step, status: 'rolledBack' } : step)),
+    }
+    onProgress?.(state)
+  }
+  onProgress?.(state)
+
+  try {
+    const createdQuestions = state.steps
+      .filter((step) => step.kind === 'question' && step.status === 'done')
+      .filter(hasCreatedId)
+      .reverse()
+    for (const questionStep of createdQuestions) {
+      await questionApi.remove(questionStep.createdId)
+      markRolledBack(
+        (step) =>
+          step.key === questionStep.key ||
+          (step.kind === 'option' && step.questionIndex === questionStep.questionIndex && step.status === 'done'),
+      )
+    }
+    if (state.surveyId) {
+      await surveyApi.remove(state.surveyId)
+      markRolledBack((step) => step.kind === 'survey')
+    }
+  } catch (err) {
+    state = { ...state, status: 'failed', error: `Falha ao desfazer a criação: ${parseApiError(err)}` }
+    onProgress?.(state)
+    return state
+  }
+
+  state = { ...state, status: 'rolledBack', surveyId: undefined }
+  onProgress?.(state)
+  return state
+}
@@ -0,0 +1,164 @@
+import type { Option, Question, SurveyDraftContent, SurveyRule, SurveyStructure } from '../types/api'
+import { sortByOrdem } from '../utils/reorder'
+import { optionApi, questionApi, surveyApi } from './api'
+
+const questionDiffers = (current: Question, target: Question) =>
+  current.texto !== target.texto || current.ordem !== target.ordem || (current.tipo ?? null) !== (target.tipo ?? null)
+
+const optionDiffers = (current: Option, target: Option) =>
+  current.texto !== target.texto ||
+  current.ativo !== target.ativo ||
+  (current.ordem ?? null) !== (target.ordem ?? null)
+
+/** Perguntas de `current` que não existem em `target`. */
+export const questionsMissingFrom = (current: SurveyStructure, target: SurveyStructure) => {
+  const targetQuestionIds = new Set(target.questions.map((question) => question.id))
+  return current.questions.filter((question) => !targetQuestionIds.has(question.id))
+}
+
+/**
+ * Leva a pesquisa da estrutura `current` para `target`, casando itens pelo id.
+ * Perguntas e opções presentes nas duas são atualizadas quando diferem; as que só
+ * existem em `target` são criadas com novos ids. Opções ausentes de `target` ficam
+ * inativas, para não perder os votos já registrados nelas. Perguntas não têm como ser
+ * desativadas, então uma pergunta ausente de `target` impede a operação (nada é apagado).
+ * Todas as desativações vão antes das demais gravações: trocar uma opção ativa por outra
+ * não pode esbarrar no limite de opções ativas do backend no meio do caminho.
+ */
+export const applySurveyStructure = async (current: SurveyStructure, target: SurveyStructure) => {
+  const missing = questionsMissingFrom(current, target)
+  if (missing.length > 0) {
+    throw new Error(
+      `A estrutura não pode ser aplicada sem apagar ${missing.length} pergunta(s) que já existem: ` +
+        missing.map((question) => `"${question.texto}"`).join(', '),
+    )
+  }
+  const surveyId = current.id
+  const surveyPayload = {
+    titulo: target.titulo,
+    descricao: target.descricao ?? null,
+    ativo: target.ativo,
+    dataValidade: target.dataValidade ?? null,
+  }
+  const surveyChanged =
+    current.titulo !== surveyPayload.titulo ||
+    (current.descricao ?? null) !== surveyPayload.descricao ||
+    current.ativo !== surveyPayload.ativo ||
+    (current.dataValidade ?? null) !== surveyPayload.dataValidade
+  if (surveyChanged) {
+    await surveyApi.update(surveyId, surveyPayload)
+  }
+
+  const currentQuestions = new Map(current.questions.map((question) => [question.id, question]))
+  const questionIds = new Map<number, number>()
+  const optionIds = new Map<number, number>()
+
+  // Opções que passam de ativas a inativas: as que saem de `target` e as desativadas nele.
+  const deactivated = new Set<number>()
+  for (const question of target.questions) {
+    const targetOptions = new Map((question.options ?? []).map((option) => [option.id, option]))
+    for (const option of currentQuestions.get(question.id)?.options ?? []) {
+      if (!option.ativo) continue
+      const targetOption = targetOptions.get(option.id)
+      if (targetOption?.ativo) continue
+      const { texto, ordem } = targetOption ?? option
+      await optionApi.update(option.id, { texto, ativo: false, questionId: question.id, ordem })
+      deactivated.add(option.id)
+    }
+  }
+
+  for (const question of sortByOrdem(target.questions)) {
+    const existing = currentQuestions.get(question.id)
+    let questionId = question.id
+    if (!existing) {
+      const created = await questionApi.create({
+        texto: question.texto,
+        ordem: question.ordem,
+        tipo: question.tipo,
+        surveyId,
+      })
+      questionId = created.id
+    } else if (questionDiffers(existing, question)) {
+      await questionApi.update(question.id, {
+        texto: question.texto,
+        ordem: question.ordem,
+        tipo: question.tipo,
+        surveyId,
+      })
+    }
+    questionIds.set(question.id, questionId)
+
+    const existingOptions = new Map((existing?.options ?? []).map((option) => [option.id, option]))
+    for (const option of sortByOrdem(question.options ?? [])) {
+      if (deactivated.has(option.id)) continue
+      const currentOption = existingOptions.get(option.id)
+      const payload = { texto: option.texto, ativo: option.ativo, questionId, ordem: option.ordem }
+      if (!currentOption) {
+        const created = await optionApi.create(payload)
+        optionIds.set(option.id, created.id)
+      } else if (optionDiffers(currentOption, option)) {
+        await optionApi.update(option.id, payload)
+      }
+    }
+  }
+
+  // Regras apontam para ids; os itens recriados acima ganharam ids novos.
+  const rules: SurveyRule[] = (target.rules ?? []).map((rule) => ({
+    tipo: rule.tipo,
+    sourceQuestionId: questionIds.get(rule.sourceQuestionId) ?? rule.sourceQuestionId,
+    optionId: optionIds.get(rule.optionId) ?? rule.optionId,
+    targetQuestionId:
+      rule.targetQuestionId === null ? null : (questionIds.get(rule.targetQuestionId) ?? rule.targetQuestionId),
+  }))
+  const currentRules = (current.rules ?? []).map(({ tipo, sourceQuestionId, optionId, targetQuestionId }) => ({
+    tipo,
+    sourceQuestionId,
+    optionId,
+    targetQuestionId,
+  }))
+  if (JSON.stringify(rules) !== JSON.stringify(currentRules)) {
+    await surveyApi.updateRules(surveyId, rules)
+  }
+}
+
+/**
+ * Estrutura-alvo de um rascunho do editor sobre a pesquisa `current`. Itens sem id
+ * do servidor recebem ids negativos provisórios, que `applySurveyStructure` trata como novos.
+ * Também alimenta a pré-visualização de alterações ainda não salvas.
+ */
+export const draftToStructure = (current: SurveyStructure, draft: SurveyDraftContent): SurveyStructure => {
+  let provisionalId = 0
+  const nextProvisionalId = () => {
+    provisionalId -= 1
+    return provisionalId
+  }
+  return {
+    ...current,
+    titulo: draft.titulo.trim(),
+    descricao: draft.descricao.trim() || null,
+    ativo: draft.ativo,
+    dataValidade: draft.dataValidade ? new Date(draft.dataValidade).toISOString() : null,
+    questions: draft.questions.map((question) => {
+      const questionId = question.sourceId ?? nextProvisionalId()
+      return {
+        id: questionId,
+        texto: question.texto.trim(),
+        ordem: question.ordem,
+        tipo: question.tipo,
+        surveyId: current.id,
+        options: question.options
+          .filter((option) => option.texto.trim())
+          .map((option) => ({
+            id: option.sourceId ?? nextProvisionalId(),
+            texto: option.texto.trim(),
+            ativo: option.ativo,
+            questionId,
+            ordem: option.ordem,
+          })),
+      }
+    }),
+  }
+}
+
+export const saveSurveyDraft = (current: SurveyStructure, draft: SurveyDraftContent) =>
+  applySurveyStructure(current, draftToStructure(current, draft))
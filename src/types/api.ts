@@ -9,10 +9,13 @@ export interface Survey {
   deletedAt?: string | null
 }
 
+export type QuestionType = 'SINGLE_CHOICE' | 'MULTIPLE_CHOICE' | 'RATING' | 'NPS' | 'TEXT' | 'YES_NO'
+
 export interface Question {
   id: number
   texto: string
   ordem: number
+  tipo?: QuestionType
   surveyId: number
   surveyTitulo?: string
   createdAt?: string
@@ -25,13 +28,42 @@ export interface Option {
   texto: string
   ativo: boolean
   questionId: number
+  ordem?: number
   questionTexto?: string
   createdAt?: string
   updatedAt?: string
 }
 
+export type SurveyRuleType = 'JUMP' | 'SHOW_IF'
+
+/**
+ * Regra de ramificação. JUMP: ao escolher `optionId` em `sourceQuestionId`, segue
+ * para `targetQuestionId` (null encerra a pesquisa). SHOW_IF: `targetQuestionId`
+ * só é exibida quando `optionId` foi escolhida em `sourceQuestionId`.
+ */
+export interface SurveyRule {
+  id?: number
+  tipo: SurveyRuleType
+  sourceQuestionId: number
+  optionId: number
+  targetQuestionId: number | null
+}
+
 export interface SurveyStructure extends Survey {
   questions: Question[]
+  rules?: SurveyRule[]
+}
+
+export interface SurveyVersion {
+  id: string
+  surveyId: number
+  /** Sequencial por pesquisa, começando em 1. */
+  number: number
+  createdAt: string
+  createdBy?: string | null
+  /** O que motivou o registro, como "Pergunta editada". */
+  reason: string
+  structure: SurveyStructure
 }
 
 export interface DashboardTotals {
@@ -187,8 +219,10 @@ export interface Vote {
   surveyId: number
   questionId: number
   questionText: string
-  optionId: number
-  optionText: string
+  /** Nulo nas respostas de texto livre, que não apontam para uma opção. */
+  optionId: number | null
+  optionText: string | null
+  answerText?: string | null
   createdAt?: string
   sessionId?: string | number
   source?: string
@@ -200,6 +234,41 @@ export interface Vote {
   }
 }
 
+export type AuditEntityType = 'SURVEY' | 'QUESTION' | 'OPTION'
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE'
+
+export interface AuditChange {
+  field: string
+  before?: unknown
+  after?: unknown
+}
+
+export interface AuditEntry {
+  id: number | string
+  entityType: AuditEntityType
+  entityId: number
+  /** Texto da entidade no momento da alteração, para exibir mesmo depois de removida. */
+  entityLabel?: string | null
+  surveyId?: number | null
+  action: AuditAction
+  username?: string | null
+  timestamp: string
+  /** X-Correlation-Id da requisição que gerou a alteração. */
+  correlationId?: string | null
+  changes?: AuditChange[]
+}
+
+export type AuditLogFilters = {
+  surveyId?: number
+  entityType?: AuditEntityType
+  action?: AuditAction
+  username?: string
+  correlationId?: string
+  from?: string
+  to?: string
+}
+
 export interface ApiError {
   timestamp: string
   status: number
@@ -220,6 +289,7 @@ export type UpdateSurveyPayload = CreateSurveyPayload
 export type CreateQuestionPayload = {
   texto: string
   ordem: number
+  tipo?: QuestionType
   surveyId: number
 }
 
@@ -227,6 +297,80 @@ export type CreateOptionPayload = {
   texto: string
   ativo: boolean
   questionId: number
+  ordem?: number
+}
+
+export interface SurveyTemplateOption {
+  texto: string
+  ativo: boolean
+}
+
+export interface SurveyTemplateQuestion {
+  texto: string
+  ordem: number
+  tipo?: QuestionType
+  options: SurveyTemplateOption[]
+}
+
+export interface SurveyTemplate {
+  id: string
+  nome: string
+  titulo: string
+  descricao?: string | null
+  questions: SurveyTemplateQuestion[]
+  sourceSurveyId?: number | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type CreateSurveyTemplatePayload = {
+  nome: string
+  titulo: string
+  descricao?: string | null
+  questions: SurveyTemplateQuestion[]
+  sourceSurveyId?: number | null
+}
+
+export type UpdateSurveyTemplatePayload = Partial<CreateSurveyTemplatePayload>
+
+export interface SurveyDraftOption {
+  id: string
+  texto: string
+  ativo: boolean
+  /** Id da opção no servidor quando o rascunho edita uma pesquisa existente. */
+  sourceId?: number
+  ordem?: number
+}
+
+export interface SurveyDraftQuestion {
+  id: string
+  texto: string
+  ordem: number
+  tipo: QuestionType
+  options: SurveyDraftOption[]
+  /** Id da pergunta no servidor quando o rascunho edita uma pesquisa existente. */
+  sourceId?: number
+}
+
+/** O que o formulário de criação edita; é o que vai para o armazenamento local a cada autosave. */
+export type SurveyDraftContent = {
+  titulo: string
+  descricao: string
+  ativo: boolean
+  /** Valor do campo datetime-local, ainda sem fuso. */
+  dataValidade: string
+  questions: SurveyDraftQuestion[]
+}
+
+export interface SurveyDraft extends SurveyDraftContent {
+  id: string
+  owner?: string | null
+  /** Incrementada a cada gravação; é por ela que uma aba percebe que outra gravou antes. */
+  revision: number
+  /** Aba que fez a última gravação. */
+  savedBy: string
+  createdAt: string
+  updatedAt: string
 }
 
 export type LoginPayload = {
@@ -234,10 +378,44 @@ export type LoginPayload = {
   password: string
 }
 
+export type UserRole = 'ADMIN' | 'EDITOR' | 'VIEWER'
+
+export interface AuthUser {
+  username?: string
+  role: UserRole
+  /** Claims do JWT decodificadas, como vieram do token. */
+  claims: Record<string, unknown>
+  expiresAt?: number
+}
+
+export interface User {
+  id: number
+  username: string
+  nome?: string | null
+  email?: string | null
+  role: UserRole
+  ativo: boolean
+  lastLoginAt?: string | null
+  createdAt?: string
+  updatedAt?: string
+}
+
+export type CreateUserPayload = {
+  username: string
+  nome?: string | null
+  email?: string | null
+  role: UserRole
+  password: string
+  ativo: boolean
+}
+
+export type UpdateUserPayload = Omit<CreateUserPayload, 'username' | 'password'>
+
 export interface AuthResponse {
   accessToken?: string
   token?: string
   tokenType?: string
+  refreshToken?: string
   username?: string
   role?: string
   expiresAt?: string
@@ -0,0 +1,90 @@
+import type { AuditAction, AuditChange, AuditEntityType, AuditEntry } from '../types/api'
+import { isQuestionType, questionTypeLabel } from './questionTypes'
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  SURVEY: 'Pesquisa',
+  QUESTION: 'Pergunta',
+  OPTION: 'Opção',
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Criação',
+  UPDATE: 'Edição',
+  DELETE: 'Remoção',
+  RESTORE: 'Restauração',
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  titulo: 'Título',
+  descricao: 'Descrição',
+  ativo: 'Status',
+  dataValidade: 'Validade',
+  texto: 'Texto',
+  ordem: 'Ordem',
+  tipo: 'Tipo',
+  questionId: 'Pergunta',
+  deletedAt: 'Removida em',
+}
+
+export const auditFieldLabel = (field: string) => FIELD_LABELS[field] ?? field
+
+export const formatAuditValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (field === 'ativo' && typeof value === 'boolean') return value ? 'Ativa' : 'Inativa'
+  if (field === 'tipo' && isQuestionType(value)) return questionTypeLabel(value)
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+const isStatusChange = (changes: AuditChange[] = []) => changes.find((change) => change.field === 'ativo')
+
+/** Frase curta para a linha do histórico, destacando ativações e desativações. */
+export const describeAuditEntry = (entry: AuditEntry) => {
+  const entity = AUDIT_ENTITY_LABELS[entry.entityType] ?? entry.entityType
+  const label = entry.entityLabel ? ` "${entry.entityLabel}"` : ` #${entry.entityId}`
+  const statusChange = entry.action === 'UPDATE' ? isStatusChange(entry.changes) : undefined
+  if (statusChange && entry.changes?.length === 1) {
+    return `${entity}${label} ${statusChange.after ? 'ativada' : 'desativada'}`
+  }
+  const verb: Record<AuditAction, string> = {
+    CREATE: 'criada',
+    UPDATE: 'editada',
+    DELETE: 'removida',
+    RESTORE: 'restaurada',
+  }
+  return `${entity}${label} ${verb[entry.action] ?? entry.action.toLowerCase()}`
+}
+
+export type AuditGroup = {
+  key: string
+  correlationId?: string
+  timestamp: string
+  username?: string | null
+  entries: AuditEntry[]
+}
+
+/**
+ * Agrupa entradas geradas pela mesma requisição (mesmo X-Correlation-Id), como
+ * uma reordenação que altera várias perguntas. Mais recentes primeiro.
+ */
+export const groupAuditEntries = (entries: AuditEntry[]): AuditGroup[] => {
+  const groups = new Map<string, AuditGroup>()
+  entries.forEach((entry) => {
+    const key = entry.correlationId ? `corr-${entry.correlationId}` : `entry-${entry.id}`
+    const group = groups.get(key)
+    if (group) {
+      group.entries.push(entry)
+      if (entry.timestamp > group.timestamp) group.timestamp = entry.timestamp
+      return
+    }
+    groups.set(key, {
+      key,
+      correlationId: entry.correlationId ?? undefined,
+      timestamp: entry.timestamp,
+      username: entry.username,
+      entries: [entry],
+    })
+  })
+  return Array.from(groups.values()).sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+}
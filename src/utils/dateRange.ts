@@ -0,0 +1,134 @@
+export type DateRangePreset = 'all' | '7d' | '30d' | '90d' | 'month' | 'custom'
+
+export type DateRangeSelection = {
+  preset: DateRangePreset
+  from?: string
+  to?: string
+}
+
+export type ResolvedDateRange = {
+  from: string
+  to: string
+}
+
+export const DATE_RANGE_PRESETS: Array<{ value: DateRangePreset; label: string }> = [
+  { value: 'all', label: 'Todo o período' },
+  { value: '7d', label: 'Últimos 7 dias' },
+  { value: '30d', label: 'Últimos 30 dias' },
+  { value: '90d', label: 'Últimos 90 dias' },
+  { value: 'month', label: 'Este mês' },
+  { value: 'custom', label: 'Personalizado' },
+]
+
+const ALL_TIME_START = '2000-01-01'
+
+const pad = (num: number) => num.toString().padStart(2, '0')
+
+export const toDateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+const isDateInputValue = (value?: string | null): value is string =>
+  Boolean(value && /^\d{4}-\d{2}-\d{2}$/.test(value))
+
+const daysAgo = (days: number, from = new Date()) => {
+  const date = new Date(from)
+  date.setDate(date.getDate() - days)
+  return date
+}
+
+export const parseDateRangeParams = (params: URLSearchParams): DateRangeSelection => {
+  const preset = params.get('range') as DateRangePreset | null
+  const known = DATE_RANGE_PRESETS.some((item) => item.value === preset)
+  if (!preset || !known) return { preset: 'all' }
+  if (preset !== 'custom') return { preset }
+  const from = params.get('from')
+  const to = params.get('to')
+  return {
+    preset,
+    from: isDateInputValue(from) ? from : undefined,
+    to: isDateInputValue(to) ? to : undefined,
+  }
+}
+
+export const applyDateRangeParams = (params: URLSearchParams, selection: DateRangeSelection) => {
+  const next = new URLSearchParams(params)
+  next.delete('range')
+  next.delete('from')
+  next.delete('to')
+  if (selection.preset !== 'all') {
+    next.set('range', selection.preset)
+  }
+  if (selection.preset === 'custom') {
+    if (selection.from) next.set('from', selection.from)
+    if (selection.to) next.set('to', selection.to)
+  }
+  return next
+}
+
+/** Converte a seleção em datas locais (dia inteiro) aceitas por `from`/`to` da API. */
+export const resolveDateRange = (selection: DateRangeSelection, now = new Date()): ResolvedDateRange => {
+  const today = toDateInputValue(now)
+  let fromDay = ALL_TIME_START
+  let toDay = today
+  switch (selection.preset) {
+    case '7d':
+      fromDay = toDateInputValue(daysAgo(6, now))
+      break
+    case '30d':
+      fromDay = toDateInputValue(daysAgo(29, now))
+      break
+    case '90d':
+      fromDay = toDateInputValue(daysAgo(89, now))
+      break
+    case 'month':
+      fromDay = toDateInputValue(new Date(now.getFullYear(), now.getMonth(), 1))
+      break
+    case 'custom':
+      fromDay = selection.from ?? ALL_TIME_START
+      toDay = selection.to ?? today
+      break
+    default:
+      break
+  }
+  const [start, end] = fromDay <= toDay ? [fromDay, toDay] : [toDay, fromDay]
+  return {
+    from: `${start}T00:00:00`,
+    to: `${end}T23:59:59`,
+  }
+}
+
+export const formatDateRangeLabel = (range: ResolvedDateRange) => {
+  const format = (value: string) => {
+    const [year, month, day] = value.slice(0, 10).split('-')
+    return `${day}/${month}/${year}`
+  }
+  return `${format(range.from)} – ${format(range.to)}`
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const parseDay = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+/** Dias entre o início do intervalo e a data informada (YYYY-MM-DD...). */
+export const getDayOffset = (rangeFrom: string, date: string) =>
+  Math.round((parseDay(date).getTime() - parseDay(rangeFrom).getTime()) / DAY_MS)
+
+export const addDays = (date: string, days: number) => {
+  const parsed = parseDay(date)
+  parsed.setDate(parsed.getDate() + days)
+  return toDateInputValue(parsed)
+}
+
+/** Período imediatamente anterior com a mesma quantidade de dias. */
+export const getPreviousDateRange = (range: ResolvedDateRange): ResolvedDateRange => {
+  const length = getDayOffset(range.from, range.to) + 1
+  const previousTo = addDays(range.from, -1)
+  const previousFrom = addDays(range.from, -length)
+  return {
+    from: `${previousFrom}T00:00:00`,
+    to: `${previousTo}T23:59:59`,
+  }
+}
@@ -0,0 +1,218 @@
+import type {
+  DashboardBreakdownItem,
+  SurveyAudienceMetrics,
+  SurveyDashboardMetrics,
+} from '../types/api'
+import type { ResolvedDateRange } from './dateRange'
+import type { SurveyTotals } from './metrics'
+
+export type MetricsExportRow = {
+  secao: string
+  grupo: string
+  item: string
+  valor: number | string | null
+  percentual: number | null
+}
+
+export type MetricsExportData = {
+  surveyId: number
+  titulo?: string
+  range: ResolvedDateRange
+  generatedAt: string
+  totals?: SurveyTotals
+  statsByQuestion: NonNullable<SurveyDashboardMetrics['statsByQuestion']>
+  responsesOverTime: NonNullable<SurveyDashboardMetrics['responsesOverTime']>
+  audience?: SurveyAudienceMetrics
+}
+
+const CSV_COLUMNS: Array<keyof MetricsExportRow> = ['secao', 'grupo', 'item', 'valor', 'percentual']
+
+const audienceDistributions: Array<{ key: keyof SurveyAudienceMetrics; label: string }> = [
+  { key: 'deviceDistribution', label: 'Dispositivos' },
+  { key: 'osDistribution', label: 'Sistemas Operacionais' },
+  { key: 'browserDistribution', label: 'Navegadores' },
+  { key: 'sourceDistribution', label: 'Origem' },
+  { key: 'countryDistribution', label: 'Países' },
+  { key: 'stateDistribution', label: 'Estados' },
+  { key: 'cityDistribution', label: 'Cidades' },
+  { key: 'peakHours', label: 'Horários de pico' },
+  { key: 'peakDays', label: 'Dias de pico' },
+]
+
+const roundPercentage = (value?: number) =>
+  value !== undefined && Number.isFinite(value) ? Number(value.toFixed(2)) : null
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Revogar na hora pode cancelar o download antes de o navegador ler o blob.
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index
+  for (let bit = 0; bit < 8; bit += 1) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+  return crc >>> 0
+})
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Junta arquivos num .zip sem compressão (os .xlsx do backend já vêm comprimidos),
+ * para baixar vários de uma vez com um único download.
+ */
+export const buildZip = (files: Array<{ name: string; data: Uint8Array }>) => {
+  const encoder = new TextEncoder()
+  const now = new Date()
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2)
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate()
+  const entries = files.map((file) => ({ ...file, encodedName: encoder.encode(file.name), crc: crc32(file.data) }))
+  const localSize = entries.reduce((sum, entry) => sum + 30 + entry.encodedName.length + entry.data.length, 0)
+  const centralSize = entries.reduce((sum, entry) => sum + 46 + entry.encodedName.length, 0)
+  const output = new Uint8Array(new ArrayBuffer(localSize + centralSize + 22))
+  const view = new DataView(output.buffer)
+  let position = 0
+  const write16 = (value: number) => {
+    view.setUint16(position, value, true)
+    position += 2
+  }
+  const write32 = (value: number) => {
+    view.setUint32(position, value, true)
+    position += 4
+  }
+  const writeBytes = (bytes: Uint8Array) => {
+    output.set(bytes, position)
+    position += bytes.length
+  }
+  // Campos comuns ao cabeçalho local e ao diretório central: versão, flags (nomes UTF-8),
+  // método 0 (sem compressão), data, CRC e tamanhos.
+  const writeEntryFields = (entry: (typeof entries)[number]) => {
+    write16(20)
+    write16(0x0800)
+    write16(0)
+    write16(dosTime)
+    write16(dosDate)
+    write32(entry.crc)
+    write32(entry.data.length)
+    write32(entry.data.length)
+    write16(entry.encodedName.length)
+    write16(0)
+  }
+
+  const offsets: number[] = []
+  entries.forEach((entry) => {
+    offsets.push(position)
+    write32(0x04034b50)
+    writeEntryFields(entry)
+    writeBytes(entry.encodedName)
+    writeBytes(entry.data)
+  })
+  entries.forEach((entry, index) => {
+    write32(0x02014b50)
+    write16(20)
+    writeEntryFields(entry)
+    write16(0)
+    write16(0)
+    write16(0)
+    write32(0)
+    write32(offsets[index])
+    writeBytes(entry.encodedName)
+  })
+  write32(0x06054b50)
+  write16(0)
+  write16(0)
+  write16(entries.length)
+  write16(entries.length)
+  write32(centralSize)
+  write32(localSize)
+  write16(0)
+  return new Blob([output], { type: 'application/zip' })
+}
+
+const escapeCsvValue = (value: unknown) => {
+  if (value === null || value === undefined) return ''
+  // Textos que começam como fórmula seriam executados pela planilha; números negativos ficam como estão.
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = <T extends Record<string, unknown>>(rows: T[], columns: Array<keyof T>) => {
+  const header = columns.map((column) => escapeCsvValue(column)).join(',')
+  const body = rows.map((row) => columns.map((column) => escapeCsvValue(row[column])).join(','))
+  return [header, ...body].join('\r\n')
+}
+
+export const buildMetricsExportRows = (data: MetricsExportData): MetricsExportRow[] => {
+  const rows: MetricsExportRow[] = []
+  const push = (
+    secao: string,
+    grupo: string,
+    item: string,
+    valor: MetricsExportRow['valor'],
+    percentual: number | null = null,
+  ) => rows.push({ secao, grupo, item, valor, percentual })
+
+  push('Período', '', 'De', data.range.from)
+  push('Período', '', 'Até', data.range.to)
+
+  if (data.totals) {
+    push('Totais', '', 'Respostas', data.totals.responses)
+    push('Totais', '', 'Conclusões', data.totals.completions)
+    push('Totais', '', 'Abandonos', data.totals.abandons)
+    push('Totais', '', 'Taxa de conclusão (%)', roundPercentage(data.totals.completionRate))
+    push('Totais', '', 'Taxa de abandono (%)', roundPercentage(data.totals.abandonmentRate))
+    push('Totais', '', 'Tempo médio (s)', data.totals.avgResponseTimeSeconds ?? null)
+  }
+
+  data.statsByQuestion.forEach((question) => {
+    push('Perguntas', question.texto, 'Total', question.responses)
+    question.options?.forEach((option) => {
+      push('Perguntas', question.texto, option.texto, option.responses, roundPercentage(option.percentage))
+    })
+  })
+
+  data.responsesOverTime.forEach((item) => {
+    push('Respostas ao longo do tempo', '', item.label, item.count)
+  })
+
+  if (data.audience) {
+    const audience = data.audience
+    audienceDistributions.forEach(({ key, label }) => {
+      const items = audience[key] as DashboardBreakdownItem[] | undefined
+      const total = items?.reduce((acc, item) => acc + (item.value ?? 0), 0) ?? 0
+      items?.forEach((item) => {
+        const percentage = item.percentage ?? (total > 0 ? (item.value / total) * 100 : undefined)
+        push('Audiência', label, item.label, item.value, roundPercentage(percentage))
+      })
+    })
+    push('Audiência', 'Resumo', 'Respondentes únicos', audience.uniqueRespondents ?? null)
+    push('Audiência', 'Resumo', 'Respondentes duplicados', audience.duplicateRespondents ?? null)
+    push('Audiência', 'Resumo', 'Sessões suspeitas', audience.suspiciousSessions ?? null)
+    push('Audiência', 'Resumo', 'Tempo médio para abandono (s)', audience.avgTimeToAbandonSeconds ?? null)
+  }
+
+  return rows
+}
+
+const buildFilename = (data: MetricsExportData, extension: string) =>
+  `survey-${data.surveyId}-metrics-${data.range.from.slice(0, 10)}_${data.range.to.slice(0, 10)}.${extension}`
+
+export const exportMetricsCsv = (data: MetricsExportData) => {
+  const csv = toCsv(buildMetricsExportRows(data), CSV_COLUMNS)
+  // BOM para o Excel reconhecer UTF-8 (acentos).
+  downloadBlob(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }), buildFilename(data, 'csv'))
+}
+
+export const exportMetricsJson = (data: MetricsExportData) => {
+  const json = JSON.stringify(data, null, 2)
+  downloadBlob(new Blob([json], { type: 'application/json' }), buildFilename(data, 'json'))
+}
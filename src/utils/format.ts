@@ -0,0 +1,18 @@
+import type { Vote } from '../types/api'
+
+/**
+ * Data e hora no formato dd/mm/aaaa hh:mm, com os segundos quando `withSeconds`.
+ * Vazio vira "—"; um valor que não é data volta como veio.
+ */
+export const formatDateTime = (date?: string | null, { withSeconds = false } = {}) => {
+  if (!date) return '—'
+  const parsed = new Date(date)
+  if (Number.isNaN(parsed.getTime())) return date
+  return parsed.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: withSeconds ? 'medium' : 'short' })
+}
+
+export const formatLocation = (location?: Vote['location']) => {
+  if (!location) return '—'
+  const parts = [location.city, location.state, location.country].filter(Boolean)
+  return parts.length > 0 ? parts.join(', ') : '—'
+}
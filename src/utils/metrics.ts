@@ -0,0 +1,48 @@
+import type { SurveyDashboardMetrics } from '../types/api'
+
+export type SurveyTotals = NonNullable<ReturnType<typeof buildTotals>>
+
+export const buildTotals = (metrics?: SurveyDashboardMetrics) => {
+  if (!metrics) return undefined
+  const overview = metrics.overview
+  const responsesFromQuestions =
+    metrics.statsByQuestion?.reduce((acc, q) => acc + (q.responses ?? 0), 0) ?? 0
+  const toNumber = (value: unknown) => {
+    const num = Number(value)
+    return Number.isFinite(num) ? num : undefined
+  }
+  const baseResponses =
+    toNumber(metrics.totals?.responses) ??
+    toNumber(metrics.totalResponses) ??
+    toNumber(overview?.totalResponses) ??
+    responsesFromQuestions
+  const completionRate =
+    metrics.totals?.completionRate ?? metrics.completionRate ?? overview?.completionRate
+  const abandonmentRate =
+    metrics.totals?.abandonmentRate ?? metrics.abandonmentRate ?? overview?.abandonmentRate
+  const computedCompletions =
+    completionRate !== undefined ? Math.round(baseResponses * completionRate) : undefined
+  const computedAbandons =
+    abandonmentRate !== undefined ? Math.round(baseResponses * abandonmentRate) : undefined
+  return {
+    responses: baseResponses,
+    completions:
+      metrics.totals?.completions ??
+      metrics.totalCompletions ??
+      overview?.totalCompletions ??
+      computedCompletions ??
+      0,
+    abandons:
+      metrics.totals?.abandons ??
+      metrics.totalAbandons ??
+      overview?.totalAbandons ??
+      computedAbandons ??
+      0,
+    completionRate: completionRate,
+    abandonmentRate: abandonmentRate,
+    avgResponseTimeSeconds:
+      metrics.totals?.avgResponseTimeSeconds ??
+      metrics.avgResponseTimeSeconds ??
+      overview?.avgResponseTimeSeconds,
+  }
+}
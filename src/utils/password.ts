@@ -0,0 +1,12 @@
+export const MIN_PASSWORD_LENGTH = 8
+
+/** Mensagem de erro para a senha informada, ou undefined se ela puder ser enviada. */
+export const validateNewPassword = (password: string, confirmation: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `A senha precisa ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.`
+  }
+  if (password !== confirmation) {
+    return 'As senhas não conferem.'
+  }
+  return undefined
+}
@@ -0,0 +1,46 @@
+import type { UserRole } from '../types/api'
+
+export type Permission =
+  | 'survey:create'
+  | 'survey:edit'
+  | 'survey:delete'
+  | 'template:manage'
+  | 'metrics:view'
+  | 'user:manage'
+  | 'audit:view'
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  ADMIN: [
+    'survey:create',
+    'survey:edit',
+    'survey:delete',
+    'template:manage',
+    'metrics:view',
+    'user:manage',
+    'audit:view',
+  ],
+  EDITOR: ['survey:create', 'survey:edit', 'template:manage'],
+  VIEWER: [],
+}
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  ADMIN: 'Administrador',
+  EDITOR: 'Editor',
+  VIEWER: 'Leitor',
+}
+
+/**
+ * Aceita os formatos que o backend pode emitir ("ADMIN", "ROLE_ADMIN", listas de
+ * authorities). Papéis desconhecidos caem em VIEWER, o de menor privilégio.
+ */
+export const normalizeRole = (raw: unknown): UserRole => {
+  const candidates = (Array.isArray(raw) ? raw : [raw])
+    .map((item) => (typeof item === 'object' && item !== null ? (item as { authority?: unknown }).authority : item))
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim().toUpperCase().replace(/^ROLE_/, ''))
+  const known = (['ADMIN', 'EDITOR', 'VIEWER'] as const).find((role) => candidates.includes(role))
+  return known ?? 'VIEWER'
+}
+
+export const hasPermission = (role: UserRole | null | undefined, permission: Permission) =>
+  Boolean(role && ROLE_PERMISSIONS[role].includes(permission))
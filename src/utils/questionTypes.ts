@@ -0,0 +1,46 @@
+import type { QuestionType } from '../types/api'
+
+export const DEFAULT_QUESTION_TYPE: QuestionType = 'SINGLE_CHOICE'
+
+export const QUESTION_TYPES: Array<{ value: QuestionType; label: string; description: string }> = [
+  { value: 'SINGLE_CHOICE', label: 'Escolha única', description: 'O respondente marca uma opção.' },
+  { value: 'MULTIPLE_CHOICE', label: 'Múltipla escolha', description: 'O respondente pode marcar várias opções.' },
+  { value: 'RATING', label: 'Avaliação (1–5)', description: 'Escala de 1 a 5; gera a média das notas.' },
+  { value: 'NPS', label: 'NPS (0–10)', description: 'Probabilidade de recomendação; gera o NPS.' },
+  { value: 'YES_NO', label: 'Sim / Não', description: 'Duas opções fixas.' },
+  { value: 'TEXT', label: 'Texto livre', description: 'Resposta aberta, sem opções.' },
+]
+
+export const getQuestionType = (question: { tipo?: QuestionType | null }): QuestionType =>
+  question.tipo ?? DEFAULT_QUESTION_TYPE
+
+export const isQuestionType = (value: unknown): value is QuestionType =>
+  QUESTION_TYPES.some((type) => type.value === value)
+
+export const questionTypeLabel = (tipo?: QuestionType | null) =>
+  QUESTION_TYPES.find((type) => type.value === (tipo ?? DEFAULT_QUESTION_TYPE))?.label ?? 'Escolha única'
+
+/**
+ * Tipos cujas opções são escritas pelo autor e por isso sujeitas ao limite de opções ativas.
+ * As escalas geradas ficam isentas: o NPS precisa das 11 notas (0–10) ativas.
+ */
+export const hasEditableOptions = (tipo: QuestionType) => tipo === 'SINGLE_CHOICE' || tipo === 'MULTIPLE_CHOICE'
+
+/**
+ * Opções geradas para os tipos de escala e sim/não. Os votos continuam apontando
+ * para opções, então cada nota vira uma opção com o número como texto. Texto livre
+ * não tem opções: a resposta chega em `Vote.answerText`.
+ */
+export const fixedOptionTexts = (tipo: QuestionType): string[] => {
+  switch (tipo) {
+    case 'RATING':
+      return ['1', '2', '3', '4', '5']
+    case 'NPS':
+      return Array.from({ length: 11 }, (_, index) => String(index))
+    case 'YES_NO':
+      return ['Sim', 'Não']
+    default:
+      return []
+  }
+}
+
@@ -0,0 +1,25 @@
+type Orderable = { id: number; ordem?: number }
+
+export const moveItem = <T>(items: T[], fromIndex: number, toIndex: number) => {
+  if (fromIndex === toIndex || fromIndex < 0 || toIndex < 0) return items
+  const next = [...items]
+  const [moved] = next.splice(fromIndex, 1)
+  next.splice(toIndex, 0, moved)
+  return next
+}
+
+/** Renumera `ordem` de 1 a N seguindo a posição na lista, sem buracos nem repetições. */
+export const renumber = <T extends Orderable>(items: T[]) =>
+  items.map((item, index) => ({ ...item, ordem: index + 1 }))
+
+/** Itens de `after` cuja `ordem` mudou em relação a `before`; só esses precisam ser persistidos. */
+export const changedOrder = <T extends Orderable>(before: T[], after: T[]) => {
+  const previousOrder = new Map(before.map((item) => [item.id, item.ordem]))
+  return after.filter((item) => previousOrder.get(item.id) !== item.ordem)
+}
+
+export const sortByOrdem = <T extends Orderable>(items: T[]) =>
+  items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => (a.item.ordem ?? a.index + 1) - (b.item.ordem ?? b.index + 1) || a.index - b.index)
+    .map(({ item }) => item)
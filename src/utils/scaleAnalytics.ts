@@ -0,0 +1,146 @@
+import type { QuestionType, Vote } from '../types/api'
+import { toDateInputValue } from './dateRange'
+
+export type ScaleKind = 'nps' | 'rating'
+
+export type ScaleDistributionItem = {
+  score: number
+  responses: number
+  percentage: number
+}
+
+export type ScaleSummary = {
+  kind: ScaleKind
+  total: number
+  mean: number | null
+  median: number | null
+  distribution: ScaleDistributionItem[]
+  nps: ReturnType<typeof computeNps>
+}
+
+export type NpsTrendPoint = {
+  label: string
+  responses: number
+  nps: number | null
+  cumulativeNps: number | null
+}
+
+type ScaleOption = { texto: string; responses: number }
+
+const SCALE_RANGES: Record<ScaleKind, { min: number; max: number }> = {
+  nps: { min: 0, max: 10 },
+  rating: { min: 1, max: 5 },
+}
+
+const parseScore = (texto: string) => {
+  const trimmed = texto.trim()
+  return /^\d{1,2}$/.test(trimmed) ? Number(trimmed) : null
+}
+
+/** NPS = % promotores (9–10) − % detratores (0–6), de −100 a 100. */
+const computeNps = (scores: Array<{ score: number; responses: number }>) => {
+  let promoters = 0
+  let passives = 0
+  let detractors = 0
+  scores.forEach(({ score, responses }) => {
+    if (score >= 9) promoters += responses
+    else if (score >= 7) passives += responses
+    else detractors += responses
+  })
+  const total = promoters + passives + detractors
+  return {
+    total,
+    promoters,
+    passives,
+    detractors,
+    score: total > 0 ? Math.round(((promoters - detractors) / total) * 100) : null,
+  }
+}
+
+/**
+ * Identifica perguntas de escala. O tipo declarado vence; sem ele, as opções
+ * precisam ser todas inteiras dentro de 1–5 (avaliação) ou 0–10 (NPS).
+ */
+export const detectScale = (options: Array<{ texto: string }>, tipo?: QuestionType): ScaleKind | null => {
+  if (tipo === 'NPS') return 'nps'
+  if (tipo === 'RATING') return 'rating'
+  if (tipo && tipo !== 'SINGLE_CHOICE') return null
+  const scores = options.map((option) => parseScore(option.texto))
+  if (scores.length < 3 || scores.some((score) => score === null)) return null
+  const values = scores as number[]
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  if (min >= 1 && max <= 5) return 'rating'
+  if (min >= 0 && max <= 10 && values.length >= 6) return 'nps'
+  return null
+}
+
+export const summarizeScale = (kind: ScaleKind, options: ScaleOption[]): ScaleSummary => {
+  const { min, max } = SCALE_RANGES[kind]
+  const counts = new Map<number, number>()
+  options.forEach((option) => {
+    const score = parseScore(option.texto)
+    if (score === null || score < min || score > max) return
+    counts.set(score, (counts.get(score) ?? 0) + option.responses)
+  })
+  const total = Array.from(counts.values()).reduce((sum, value) => sum + value, 0)
+  const distribution = Array.from({ length: max - min + 1 }, (_, index) => {
+    const score = min + index
+    const responses = counts.get(score) ?? 0
+    return { score, responses, percentage: total > 0 ? (responses / total) * 100 : 0 }
+  })
+
+  let median: number | null = null
+  if (total > 0) {
+    // Mediana a partir das contagens acumuladas; em total par, média dos dois centrais.
+    const scoreAt = (position: number) => {
+      let cumulative = 0
+      for (const item of distribution) {
+        cumulative += item.responses
+        if (cumulative >= position) return item.score
+      }
+      return max
+    }
+    median = total % 2 === 1 ? scoreAt((total + 1) / 2) : (scoreAt(total / 2) + scoreAt(total / 2 + 1)) / 2
+  }
+
+  const weighted = distribution.reduce((sum, item) => sum + item.score * item.responses, 0)
+  return {
+    kind,
+    total,
+    mean: total > 0 ? weighted / total : null,
+    median,
+    distribution,
+    nps: computeNps(distribution),
+  }
+}
+
+/**
+ * NPS por dia a partir dos votos, nos mesmos rótulos de `responsesOverTime`.
+ * O acumulado suaviza dias com poucas respostas.
+ */
+export const buildNpsTrend = (votes: Vote[], labels: string[]): NpsTrendPoint[] => {
+  const scoresByDay = new Map<string, number[]>()
+  votes.forEach((vote) => {
+    const score = parseScore(vote.optionText ?? '')
+    if (score === null || score > 10 || !vote.createdAt) return
+    const created = new Date(vote.createdAt)
+    if (Number.isNaN(created.getTime())) return
+    const day = toDateInputValue(created)
+    scoresByDay.set(day, [...(scoresByDay.get(day) ?? []), score])
+  })
+  const days =
+    labels.length > 0 ? labels.map((label) => label.slice(0, 10)) : Array.from(scoresByDay.keys()).sort()
+  const toOptions = (scores: number[]) => scores.map((score) => ({ score, responses: 1 }))
+  const cumulative: number[] = []
+  return days.map((day) => {
+    const scores = scoresByDay.get(day) ?? []
+    cumulative.push(...scores)
+    return {
+      label: day,
+      responses: scores.length,
+      nps: computeNps(toOptions(scores)).score,
+      cumulativeNps: computeNps(toOptions(cumulative)).score,
+    }
+  })
+}
@@ -0,0 +1,110 @@
+import type { Question, SurveyRule, Vote } from '../types/api'
+import { resolveFirstQuestion, resolveNextQuestion, type FlowAnswer } from './surveyFlow'
+
+export type RespondentSession = {
+  sessionId: string
+  votes: Vote[]
+  firstVoteAt?: string
+  lastVoteAt?: string
+  device?: string
+  source?: string
+  location?: Vote['location']
+}
+
+export type RespondentAnswer = {
+  question: Question
+  votes: Vote[]
+  status: 'answered' | 'skipped' | 'abandoned'
+}
+
+/** O que o respondente marcou ou escreveu. */
+export const voteAnswer = (vote: Vote) => vote.optionText ?? vote.answerText ?? ''
+
+const toTime = (value?: string) => {
+  if (!value) return Number.NaN
+  return new Date(value).getTime()
+}
+
+export const groupVotesBySession = (votes: Vote[]): RespondentSession[] => {
+  const groups = new Map<string, Vote[]>()
+  votes.forEach((vote) => {
+    if (vote.sessionId === undefined || vote.sessionId === null || vote.sessionId === '') return
+    const key = String(vote.sessionId)
+    const current = groups.get(key)
+    if (current) {
+      current.push(vote)
+    } else {
+      groups.set(key, [vote])
+    }
+  })
+
+  return Array.from(groups.entries())
+    .map(([sessionId, sessionVotes]) => {
+      const sorted = [...sessionVotes].sort((a, b) => (toTime(a.createdAt) || 0) - (toTime(b.createdAt) || 0))
+      const withDevice = sorted.find((vote) => vote.device)
+      const withSource = sorted.find((vote) => vote.source)
+      const withLocation = sorted.find((vote) => vote.location)
+      return {
+        sessionId,
+        votes: sorted,
+        firstVoteAt: sorted[0]?.createdAt,
+        lastVoteAt: sorted[sorted.length - 1]?.createdAt,
+        device: withDevice?.device,
+        source: withSource?.source,
+        location: withLocation?.location,
+      }
+    })
+    .sort((a, b) => (toTime(b.lastVoteAt) || 0) - (toTime(a.lastVoteAt) || 0))
+}
+
+/**
+ * Alinha os votos de uma sessão com as perguntas da estrutura, seguindo o fluxo
+ * das regras. Perguntas fora do caminho do respondente (saltos e condições) ou
+ * sem voto antes da última respondida contam como puladas; a partir da primeira
+ * pergunta do caminho que ficou sem resposta, indicam abandono.
+ */
+export const buildRespondentAnswers = (
+  questions: Question[],
+  session: RespondentSession,
+  rules: SurveyRule[] = [],
+): RespondentAnswer[] => {
+  const ordered = [...questions].sort((a, b) => a.ordem - b.ordem)
+  const votesByQuestion = new Map<number, Vote[]>()
+  const answers: Record<number, FlowAnswer> = {}
+  session.votes.forEach((vote) => {
+    const current = votesByQuestion.get(vote.questionId) ?? []
+    current.push(vote)
+    votesByQuestion.set(vote.questionId, current)
+    const answer = answers[vote.questionId] ?? { optionIds: [] }
+    if (vote.optionId !== null) answer.optionIds.push(vote.optionId)
+    answers[vote.questionId] = answer
+  })
+  const lastAnsweredIndex = ordered.reduce(
+    (acc, question, index) => (votesByQuestion.has(question.id) ? index : acc),
+    -1,
+  )
+  const indexOf = (questionId: number) => ordered.findIndex((question) => question.id === questionId)
+
+  let abandonedIndex: number | undefined
+  const visited = new Set<number>()
+  let currentId = resolveFirstQuestion(ordered, rules)
+  while (currentId !== null && !visited.has(currentId)) {
+    visited.add(currentId)
+    if (!votesByQuestion.has(currentId) && indexOf(currentId) > lastAnsweredIndex) {
+      abandonedIndex = indexOf(currentId)
+      break
+    }
+    currentId = resolveNextQuestion(ordered, rules, currentId, answers)
+  }
+
+  return ordered.map((question, index) => {
+    const questionVotes = votesByQuestion.get(question.id) ?? []
+    const status: RespondentAnswer['status'] =
+      questionVotes.length > 0
+        ? 'answered'
+        : abandonedIndex !== undefined && index >= abandonedIndex
+          ? 'abandoned'
+          : 'skipped'
+    return { question, votes: questionVotes, status }
+  })
+}
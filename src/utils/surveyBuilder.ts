@@ -0,0 +1,264 @@
+import type {
+  QuestionType,
+  SurveyDraftContent,
+  SurveyDraftOption,
+  SurveyDraftQuestion,
+  SurveyStructure,
+} from '../types/api'
+import { DEFAULT_QUESTION_TYPE, fixedOptionTexts, getQuestionType, hasEditableOptions } from './questionTypes'
+import { sortByOrdem } from './reorder'
+
+/** Limite do backend para opções ativas escritas pelo autor; ver `hasEditableOptions`. */
+export const MAX_ACTIVE_OPTIONS = 5
+
+const uniqueId = () => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`
+}
+
+const createOptionDraft = (ativo = true): SurveyDraftOption => ({
+  id: uniqueId(),
+  texto: '',
+  ativo,
+})
+
+const createTypeOptions = (tipo: QuestionType): SurveyDraftOption[] => {
+  if (hasEditableOptions(tipo)) {
+    return [createOptionDraft(), createOptionDraft(), createOptionDraft(), createOptionDraft(), createOptionDraft()]
+  }
+  return fixedOptionTexts(tipo).map((texto) => ({ ...createOptionDraft(), texto }))
+}
+
+export const createQuestionDraft = (
+  ordem: number,
+  tipo: QuestionType = DEFAULT_QUESTION_TYPE,
+): SurveyDraftQuestion => ({
+  id: uniqueId(),
+  texto: '',
+  ordem,
+  tipo,
+  options: createTypeOptions(tipo),
+})
+
+export const countActiveOptions = (options: SurveyDraftOption[]) => options.filter((option) => option.ativo).length
+
+export const emptySurveyDraft = (): SurveyDraftContent => ({
+  titulo: '',
+  descricao: '',
+  ativo: true,
+  dataValidade: '',
+  questions: [createQuestionDraft(1)],
+})
+
+export const toDateTimeLocalValue = (value?: string | null) => {
+  if (!value) return ''
+  const parsed = new Date(value)
+  if (Number.isNaN(parsed.getTime())) return ''
+  const pad = (num: number) => num.toString().padStart(2, '0')
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}T${pad(
+    parsed.getHours(),
+  )}:${pad(parsed.getMinutes())}`
+}
+
+type QuestionSource = {
+  texto: string
+  ordem: number
+  tipo?: QuestionType
+  options?: Array<{ texto: string; ativo: boolean }>
+}
+
+/** Perguntas de um template, importação ou duplicação, como itens novos do rascunho. */
+export const buildDraftQuestions = (
+  sources: QuestionSource[],
+  includeInactiveOptions = true,
+): SurveyDraftQuestion[] =>
+  [...sources]
+    .sort((a, b) => a.ordem - b.ordem)
+    .map((question) => {
+      const tipo = getQuestionType(question)
+      const options = (question.options ?? []).filter((option) => includeInactiveOptions || option.ativo)
+      let draftOptions = options.map((option) => ({ id: uniqueId(), texto: option.texto, ativo: option.ativo }))
+      if (!hasEditableOptions(tipo)) {
+        draftOptions = createTypeOptions(tipo)
+      } else if (draftOptions.length === 0) {
+        draftOptions = [createOptionDraft()]
+      }
+      return {
+        id: uniqueId(),
+        texto: question.texto,
+        ordem: question.ordem,
+        tipo,
+        options: draftOptions,
+      }
+    })
+
+/**
+ * Rascunho para editar uma pesquisa existente. Guarda os ids do servidor e mantém
+ * as opções como estão, inclusive as geradas pelos tipos de escala.
+ */
+export const draftFromStructure = (structure: SurveyStructure): SurveyDraftContent => ({
+  titulo: structure.titulo,
+  descricao: structure.descricao ?? '',
+  ativo: structure.ativo,
+  dataValidade: toDateTimeLocalValue(structure.dataValidade),
+  questions: sortByOrdem(structure.questions).map((question) => ({
+    id: uniqueId(),
+    sourceId: question.id,
+    texto: question.texto,
+    ordem: question.ordem,
+    tipo: getQuestionType(question),
+    options: sortByOrdem(question.options ?? []).map((option) => ({
+      id: uniqueId(),
+      sourceId: option.id,
+      texto: option.texto,
+      ativo: option.ativo,
+      ordem: option.ordem,
+    })),
+  })),
+})
+
+/** Primeiro problema que impede salvar o rascunho, ou undefined se ele está pronto. */
+export const validateSurveyDraft = (draft: SurveyDraftContent) => {
+  if (!draft.titulo.trim()) {
+    return 'Informe um título para a pesquisa.'
+  }
+  if (!draft.questions.every((question) => question.texto.trim())) {
+    return 'Todas as perguntas precisam de um texto.'
+  }
+  const hasTooManyActiveOptions = draft.questions.some(
+    (question) => hasEditableOptions(question.tipo) && countActiveOptions(question.options) > MAX_ACTIVE_OPTIONS,
+  )
+  if (hasTooManyActiveOptions) {
+    return `Cada pergunta pode ter no máximo ${MAX_ACTIVE_OPTIONS} opções ativas.`
+  }
+  return undefined
+}
+
+export type SurveyInfoChanges = Partial<Pick<SurveyDraftContent, 'titulo' | 'descricao' | 'ativo' | 'dataValidade'>>
+
+export type SurveyBuilderState = {
+  draft: SurveyDraftContent
+  /** Aviso da última alteração que esbarrou no limite de opções ativas. */
+  notice?: string
+}
+
+export type SurveyBuilderAction =
+  | { type: 'reset'; draft: SurveyDraftContent }
+  /** Substitui só os campos informados, como ao aplicar um template ou uma importação. */
+  | { type: 'apply'; changes: Partial<SurveyDraftContent> }
+  | { type: 'updateInfo'; changes: SurveyInfoChanges }
+  | { type: 'addQuestion' }
+  | { type: 'removeQuestion'; questionId: string }
+  | { type: 'updateQuestion'; questionId: string; changes: Partial<Pick<SurveyDraftQuestion, 'texto' | 'ordem'>> }
+  | { type: 'changeQuestionType'; questionId: string; tipo: QuestionType }
+  | { type: 'addOption'; questionId: string }
+  | { type: 'removeOption'; questionId: string; optionId: string }
+  | {
+      type: 'updateOption'
+      questionId: string
+      optionId: string
+      changes: Partial<Pick<SurveyDraftOption, 'texto' | 'ativo'>>
+    }
+
+export const createBuilderState = (draft: SurveyDraftContent = emptySurveyDraft()): SurveyBuilderState => ({
+  draft: {
+    titulo: draft.titulo,
+    descricao: draft.descricao,
+    ativo: draft.ativo,
+    dataValidade: draft.dataValidade,
+    questions: draft.questions.length > 0 ? draft.questions : [createQuestionDraft(1)],
+  },
+})
+
+const mapQuestion = (
+  state: SurveyBuilderState,
+  questionId: string,
+  update: (question: SurveyDraftQuestion) => SurveyDraftQuestion,
+) => ({
+  ...state.draft,
+  questions: state.draft.questions.map((question) => (question.id === questionId ? update(question) : question)),
+})
+
+const activeLimitNotice = (suffix: string) =>
+  `Máximo de ${MAX_ACTIVE_OPTIONS} opções ativas por pergunta. ${suffix}`
+
+/**
+ * Estado do editor de estrutura compartilhado pela criação, duplicação, importação
+ * e edição. Edições de texto mantêm o aviso atual; as demais ações o substituem.
+ */
+export const surveyBuilderReducer = (state: SurveyBuilderState, action: SurveyBuilderAction): SurveyBuilderState => {
+  switch (action.type) {
+    case 'reset':
+      return createBuilderState(action.draft)
+    case 'apply':
+      return createBuilderState({ ...state.draft, ...action.changes })
+    case 'updateInfo':
+      return { ...state, draft: { ...state.draft, ...action.changes } }
+    case 'addQuestion':
+      return {
+        draft: {
+          ...state.draft,
+          questions: [...state.draft.questions, createQuestionDraft(state.draft.questions.length + 1)],
+        },
+      }
+    case 'removeQuestion': {
+      const filtered = state.draft.questions.filter((question) => question.id !== action.questionId)
+      return { draft: filtered.length > 0 ? { ...state.draft, questions: filtered } : state.draft }
+    }
+    case 'updateQuestion':
+      return {
+        ...state,
+        draft: mapQuestion(state, action.questionId, (question) => ({ ...question, ...action.changes })),
+      }
+    case 'changeQuestionType':
+      return {
+        draft: mapQuestion(state, action.questionId, (question) => {
+          // Entre escolha única e múltipla as opções escritas são mantidas.
+          const keepOptions = hasEditableOptions(question.tipo) && hasEditableOptions(action.tipo)
+          const options = keepOptions ? question.options : createTypeOptions(action.tipo)
+          return { ...question, tipo: action.tipo, options }
+        }),
+      }
+    case 'addOption': {
+      const question = state.draft.questions.find((item) => item.id === action.questionId)
+      const reachedLimit = question ? countActiveOptions(question.options) >= MAX_ACTIVE_OPTIONS : false
+      return {
+        draft: mapQuestion(state, action.questionId, (item) => ({
+          ...item,
+          options: [...item.options, createOptionDraft(!reachedLimit)],
+        })),
+        notice: reachedLimit ? activeLimitNotice('A nova opção foi criada como inativa.') : undefined,
+      }
+    }
+    case 'removeOption':
+      return {
+        draft: mapQuestion(state, action.questionId, (question) => ({
+          ...question,
+          options:
+            question.options.length > 1
+              ? question.options.filter((option) => option.id !== action.optionId)
+              : question.options,
+        })),
+      }
+    case 'updateOption': {
+      const question = state.draft.questions.find((item) => item.id === action.questionId)
+      const target = question?.options.find((option) => option.id === action.optionId)
+      if (!question || !target) return state
+      const willActivate = action.changes.ativo === true && !target.ativo
+      if (willActivate && countActiveOptions(question.options) >= MAX_ACTIVE_OPTIONS) {
+        return { ...state, notice: activeLimitNotice('Desative uma opção antes de ativar outra.') }
+      }
+      const draft = mapQuestion(state, action.questionId, (item) => ({
+        ...item,
+        options: item.options.map((option) =>
+          option.id === action.optionId ? { ...option, ...action.changes } : option,
+        ),
+      }))
+      return action.changes.ativo === undefined ? { ...state, draft } : { draft }
+    }
+    default:
+      return state
+  }
+}
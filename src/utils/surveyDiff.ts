@@ -0,0 +1,109 @@
+import type { Option, Question, SurveyStructure } from '../types/api'
+import { sortByOrdem } from './reorder'
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged'
+
+/** O que mudou num item presente nas duas versões. */
+export type DiffChange = 'reworded' | 'reordered' | 'retyped' | 'activated' | 'deactivated'
+
+export type OptionDiff = {
+  id: number
+  status: DiffStatus
+  changes: DiffChange[]
+  before?: Option
+  after?: Option
+}
+
+export type QuestionDiff = {
+  id: number
+  status: DiffStatus
+  changes: DiffChange[]
+  before?: Question
+  after?: Question
+  options: OptionDiff[]
+}
+
+export type SurveyFieldDiff = {
+  field: 'titulo' | 'descricao' | 'ativo' | 'dataValidade'
+  before: unknown
+  after: unknown
+}
+
+export type SurveyDiff = {
+  fields: SurveyFieldDiff[]
+  questions: QuestionDiff[]
+  rulesChanged: boolean
+  /** Total de perguntas e opções com alguma diferença. */
+  changeCount: number
+}
+
+const diffStatus = (before: unknown, after: unknown, changes: DiffChange[]): DiffStatus => {
+  if (!before) return 'added'
+  if (!after) return 'removed'
+  return changes.length > 0 ? 'changed' : 'unchanged'
+}
+
+const diffOptions = (before: Option[] = [], after: Option[] = []): OptionDiff[] => {
+  const beforeById = new Map(before.map((option) => [option.id, option]))
+  const afterIds = new Set(after.map((option) => option.id))
+  const rows = sortByOrdem(after).map((option): OptionDiff => {
+    const previous = beforeById.get(option.id)
+    const changes: DiffChange[] = []
+    if (previous) {
+      if (previous.texto !== option.texto) changes.push('reworded')
+      if ((previous.ordem ?? null) !== (option.ordem ?? null)) changes.push('reordered')
+      if (previous.ativo !== option.ativo) changes.push(option.ativo ? 'activated' : 'deactivated')
+    }
+    return { id: option.id, status: diffStatus(previous, option, changes), changes, before: previous, after: option }
+  })
+  const removed = sortByOrdem(before)
+    .filter((option) => !afterIds.has(option.id))
+    .map((option): OptionDiff => ({ id: option.id, status: 'removed', changes: [], before: option }))
+  return [...rows, ...removed]
+}
+
+/**
+ * Compara duas estruturas da mesma pesquisa casando perguntas e opções pelo id:
+ * o que foi incluído, removido, reescrito, reordenado ou (des)ativado.
+ */
+export const diffSurveyStructures = (before: SurveyStructure, after: SurveyStructure): SurveyDiff => {
+  const fields = (['titulo', 'descricao', 'ativo', 'dataValidade'] as const)
+    .filter((field) => (before[field] ?? null) !== (after[field] ?? null))
+    .map((field) => ({ field, before: before[field], after: after[field] }))
+
+  const beforeById = new Map(before.questions.map((question) => [question.id, question]))
+  const afterIds = new Set(after.questions.map((question) => question.id))
+  const buildQuestion = (previous: Question | undefined, current: Question | undefined): QuestionDiff => {
+    const changes: DiffChange[] = []
+    if (previous && current) {
+      if (previous.texto !== current.texto) changes.push('reworded')
+      if (previous.ordem !== current.ordem) changes.push('reordered')
+      if ((previous.tipo ?? null) !== (current.tipo ?? null)) changes.push('retyped')
+    }
+    const options = diffOptions(previous?.options, current?.options)
+    const status = diffStatus(previous, current, changes)
+    return {
+      id: (current ?? previous)?.id ?? 0,
+      status: status === 'unchanged' && options.some((option) => option.status !== 'unchanged') ? 'changed' : status,
+      changes,
+      before: previous,
+      after: current,
+      options,
+    }
+  }
+  const questions = [
+    ...sortByOrdem(after.questions).map((question) => buildQuestion(beforeById.get(question.id), question)),
+    ...sortByOrdem(before.questions)
+      .filter((question) => !afterIds.has(question.id))
+      .map((question) => buildQuestion(question, undefined)),
+  ]
+
+  const rulesChanged = JSON.stringify(before.rules ?? []) !== JSON.stringify(after.rules ?? [])
+  const changeCount = questions.reduce((sum, question) => {
+    if (question.status === 'added' || question.status === 'removed') return sum + 1
+    const changedOptions = question.options.filter((option) => option.status !== 'unchanged').length
+    return sum + (question.changes.length > 0 ? 1 : 0) + changedOptions
+  }, 0)
+
+  return { fields, questions, rulesChanged, changeCount }
+}
@@ -0,0 +1,239 @@
+import type { Question, SurveyRule } from '../types/api'
+import { sortByOrdem } from './reorder'
+
+export type FlowIssue = {
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export type FlowBranch = {
+  label: string
+  /** null encerra a pesquisa. */
+  targetQuestionId: number | null
+}
+
+export type FlowNode = {
+  question: Question
+  reachable: boolean
+  conditions: string[]
+  branches: FlowBranch[]
+}
+
+export type SurveyFlow = {
+  nodes: FlowNode[]
+  issues: FlowIssue[]
+}
+
+const questionLabel = (question?: Question) => (question ? `#${question.ordem}` : 'pergunta removida')
+
+/**
+ * Monta o fluxo da pesquisa a partir da ordem das perguntas e das regras, apontando
+ * regras inválidas, ciclos e perguntas que nenhum caminho alcança.
+ */
+export const analyzeSurveyFlow = (questions: Question[], rules: SurveyRule[]): SurveyFlow => {
+  const ordered = sortByOrdem(questions)
+  const indexById = new Map(ordered.map((question, index) => [question.id, index]))
+  const issues: FlowIssue[] = []
+  const jumps = new Map<number, Map<number, number | null>>()
+  const conditions = new Map<number, SurveyRule[]>()
+
+  rules.forEach((rule, index) => {
+    const label = `Regra ${index + 1}`
+    const sourceIndex = indexById.get(rule.sourceQuestionId)
+    const source = sourceIndex !== undefined ? ordered[sourceIndex] : undefined
+    if (!source) {
+      issues.push({ severity: 'error', message: `${label}: a pergunta de origem não existe mais.` })
+      return
+    }
+    if (!(source.options ?? []).some((option) => option.id === rule.optionId)) {
+      issues.push({
+        severity: 'error',
+        message: `${label}: a opção escolhida não pertence a ${questionLabel(source)}.`,
+      })
+      return
+    }
+    const targetIndex = rule.targetQuestionId === null ? undefined : indexById.get(rule.targetQuestionId)
+    if (rule.targetQuestionId !== null && targetIndex === undefined) {
+      issues.push({ severity: 'error', message: `${label}: a pergunta de destino não existe mais.` })
+      return
+    }
+    if (rule.targetQuestionId === rule.sourceQuestionId) {
+      issues.push({
+        severity: 'error',
+        message: `${label}: ${questionLabel(source)} não pode apontar para si mesma.`,
+      })
+      return
+    }
+
+    if (rule.tipo === 'JUMP') {
+      const byOption = jumps.get(rule.sourceQuestionId) ?? new Map<number, number | null>()
+      if (byOption.has(rule.optionId)) {
+        issues.push({
+          severity: 'error',
+          message: `${label}: já existe um salto para a mesma opção de ${questionLabel(source)}.`,
+        })
+        return
+      }
+      byOption.set(rule.optionId, rule.targetQuestionId)
+      jumps.set(rule.sourceQuestionId, byOption)
+      return
+    }
+
+    if (targetIndex === undefined) {
+      issues.push({ severity: 'error', message: `${label}: informe a pergunta que será condicionada.` })
+      return
+    }
+    if (sourceIndex !== undefined && sourceIndex > targetIndex) {
+      issues.push({
+        severity: 'error',
+        message: `${label}: a condição está em ${questionLabel(source)}, que vem depois de ${questionLabel(
+          ordered[targetIndex],
+        )}.`,
+      })
+      return
+    }
+    const targetId = ordered[targetIndex].id
+    conditions.set(targetId, [...(conditions.get(targetId) ?? []), rule])
+  })
+
+  // Próximas perguntas na ordem; perguntas condicionais podem ser puladas, então o caminho segue adiante.
+  const defaultSuccessors = (index: number) => {
+    const successors: Array<number | null> = []
+    for (let next = index + 1; next < ordered.length; next += 1) {
+      successors.push(ordered[next].id)
+      if (!conditions.has(ordered[next].id)) return successors
+    }
+    successors.push(null)
+    return successors
+  }
+
+  const edges = new Map<number, Array<number | null>>()
+  const nodes: FlowNode[] = ordered.map((question, index) => {
+    const byOption = jumps.get(question.id) ?? new Map<number, number | null>()
+    const options = (question.options ?? []).filter((option) => option.ativo)
+    const next = ordered[index + 1]?.id ?? null
+    const jumpBranches: FlowBranch[] = options
+      .filter((option) => byOption.has(option.id))
+      .map((option) => ({ label: option.texto, targetQuestionId: byOption.get(option.id) ?? null }))
+    const hasDefaultPath = options.length === 0 || jumpBranches.length < options.length
+    const branches = hasDefaultPath
+      ? [
+          ...jumpBranches,
+          { label: jumpBranches.length > 0 ? 'Demais respostas' : 'Sequência', targetQuestionId: next },
+        ]
+      : jumpBranches
+    edges.set(question.id, [
+      ...jumpBranches.map((branch) => branch.targetQuestionId),
+      ...(hasDefaultPath ? defaultSuccessors(index) : []),
+    ])
+    const conditionLabels = (conditions.get(question.id) ?? []).map((rule) => {
+      const source = ordered[indexById.get(rule.sourceQuestionId) ?? -1]
+      const option = source?.options?.find((item) => item.id === rule.optionId)
+      return `${questionLabel(source)} = "${option?.texto ?? '?'}"`
+    })
+    return { question, reachable: false, conditions: conditionLabels, branches }
+  })
+
+  const reachable = new Set<number>()
+  if (ordered.length > 0) {
+    const queue = [ordered[0].id]
+    reachable.add(ordered[0].id)
+    while (queue.length > 0) {
+      const current = queue.shift() as number
+      for (const target of edges.get(current) ?? []) {
+        if (target === null || reachable.has(target)) continue
+        reachable.add(target)
+        queue.push(target)
+      }
+    }
+  }
+
+  nodes.forEach((node) => {
+    const conditionSources = (conditions.get(node.question.id) ?? []).map((rule) => rule.sourceQuestionId)
+    node.reachable =
+      reachable.has(node.question.id) &&
+      (conditionSources.length === 0 || conditionSources.some((sourceId) => reachable.has(sourceId)))
+    if (!node.reachable) {
+      issues.push({
+        severity: 'warning',
+        message: `${questionLabel(node.question)} nunca é exibida: nenhum caminho chega até ela.`,
+      })
+    }
+  })
+
+  const state = new Map<number, 'visiting' | 'done'>()
+  const reportedCycles = new Set<string>()
+  const visit = (questionId: number, path: number[]) => {
+    state.set(questionId, 'visiting')
+    for (const target of edges.get(questionId) ?? []) {
+      if (target === null) continue
+      if (state.get(target) === 'visiting') {
+        const cycle = [...path.slice(path.indexOf(target)), questionId, target]
+        const key = [...new Set(cycle)].sort((a, b) => a - b).join('-')
+        if (!reportedCycles.has(key)) {
+          reportedCycles.add(key)
+          const labels = cycle.map((id) => questionLabel(ordered[indexById.get(id) ?? -1]))
+          issues.push({ severity: 'error', message: `Ciclo detectado: ${labels.join(' → ')}.` })
+        }
+      } else if (!state.has(target)) {
+        visit(target, [...path, questionId])
+      }
+    }
+    state.set(questionId, 'done')
+  }
+  ordered.forEach((question) => {
+    if (!state.has(question.id)) visit(question.id, [])
+  })
+
+  return { nodes, issues }
+}
+
+export type FlowAnswer = {
+  optionIds: number[]
+  text?: string
+}
+
+const isConditionMet = (questionId: number, rules: SurveyRule[], answers: Record<number, FlowAnswer>) => {
+  const showRules = rules.filter((rule) => rule.tipo === 'SHOW_IF' && rule.targetQuestionId === questionId)
+  return (
+    showRules.length === 0 ||
+    showRules.some((rule) => answers[rule.sourceQuestionId]?.optionIds.includes(rule.optionId))
+  )
+}
+
+/** Primeira pergunta visível da pesquisa, ou null se nenhuma puder ser exibida. */
+export const resolveFirstQuestion = (questions: Question[], rules: SurveyRule[]) =>
+  sortByOrdem(questions).find((question) => isConditionMet(question.id, rules, {}))?.id ?? null
+
+/**
+ * Próxima pergunta depois de responder `currentId`: um salto da opção escolhida
+ * tem prioridade; senão segue a ordem, pulando perguntas cuja condição não vale.
+ * Retorna null ao fim da pesquisa.
+ */
+export const resolveNextQuestion = (
+  questions: Question[],
+  rules: SurveyRule[],
+  currentId: number,
+  answers: Record<number, FlowAnswer>,
+) => {
+  const ordered = sortByOrdem(questions)
+  const current = ordered.find((question) => question.id === currentId)
+  const chosen = answers[currentId]?.optionIds ?? []
+  const jump = sortByOrdem(current?.options ?? [])
+    .filter((option) => chosen.includes(option.id))
+    .map((option) =>
+      rules.find(
+        (rule) => rule.tipo === 'JUMP' && rule.sourceQuestionId === currentId && rule.optionId === option.id,
+      ),
+    )
+    .find((rule) => rule !== undefined)
+  if (jump) {
+    if (jump.targetQuestionId === null) return null
+    if (isConditionMet(jump.targetQuestionId, rules, answers)) return jump.targetQuestionId
+  }
+  const startIndex = ordered.findIndex((question) => question.id === (jump?.targetQuestionId ?? currentId))
+  const next = ordered
+    .slice(startIndex + 1)
+    .find((question) => isConditionMet(question.id, rules, answers))
+  return next?.id ?? null
+}
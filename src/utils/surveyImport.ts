@@ -0,0 +1,218 @@
+import type { QuestionType } from '../types/api'
+import { hasEditableOptions, isQuestionType } from './questionTypes'
+
+export type ImportedOption = {
+  texto: string
+  ativo: boolean
+}
+
+export type ImportedQuestion = {
+  texto: string
+  ordem: number
+  tipo?: QuestionType
+  options: ImportedOption[]
+}
+
+export type ImportedSurvey = {
+  titulo?: string
+  descricao?: string | null
+  ativo?: boolean
+  dataValidade?: string | null
+  questions: ImportedQuestion[]
+}
+
+export type ImportIssue = {
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export type SurveyImportResult = {
+  survey: ImportedSurvey
+  issues: ImportIssue[]
+}
+
+const TRUE_VALUES = ['true', '1', 'sim', 's', 'yes', 'y', 'ativa', 'ativo']
+const FALSE_VALUES = ['false', '0', 'nao', 'não', 'n', 'no', 'inativa', 'inativo']
+
+const parseBoolean = (value: unknown, fallback = true) => {
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'number') return value !== 0
+  if (typeof value !== 'string') return fallback
+  const normalized = value.trim().toLowerCase()
+  if (!normalized) return fallback
+  if (TRUE_VALUES.includes(normalized)) return true
+  if (FALSE_VALUES.includes(normalized)) return false
+  return fallback
+}
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+
+export const parseCsvRows = (content: string) => {
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? ''
+  const countOf = (pattern: RegExp) => firstLine.match(pattern)?.length ?? 0
+  const delimiter = countOf(/;/g) > countOf(/,/g) ? ';' : ','
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index]
+    if (inQuotes) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') index += 1
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+const HEADER_ALIASES = {
+  question: ['question', 'pergunta', 'questao', 'questão'],
+  option: ['option', 'opcao', 'opção', 'resposta'],
+  active: ['active', 'ativo', 'ativa'],
+}
+
+const parseCsvSurvey = (content: string): ImportedSurvey => {
+  const rows = parseCsvRows(content)
+  const header = rows[0]?.map((cell) => cell.trim().toLowerCase()) ?? []
+  const hasHeader = HEADER_ALIASES.question.some((alias) => header.includes(alias))
+  const findColumn = (aliases: string[], fallback: number) => {
+    const index = header.findIndex((cell) => aliases.includes(cell))
+    return hasHeader ? index : fallback
+  }
+  const questionColumn = findColumn(HEADER_ALIASES.question, 0)
+  const optionColumn = findColumn(HEADER_ALIASES.option, 1)
+  const activeColumn = findColumn(HEADER_ALIASES.active, 2)
+
+  const questions: ImportedQuestion[] = []
+  const byText = new Map<string, ImportedQuestion>()
+  rows.slice(hasHeader ? 1 : 0).forEach((cells) => {
+    const questionText = (cells[questionColumn] ?? '').trim()
+    if (!questionText) return
+    let question = byText.get(questionText)
+    if (!question) {
+      question = { texto: questionText, ordem: questions.length + 1, options: [] }
+      byText.set(questionText, question)
+      questions.push(question)
+    }
+    const optionText = optionColumn >= 0 ? (cells[optionColumn] ?? '').trim() : ''
+    if (optionText) {
+      question.options.push({
+        texto: optionText,
+        ativo: activeColumn >= 0 ? parseBoolean(cells[activeColumn]) : true,
+      })
+    }
+  })
+  return { questions }
+}
+
+const parseJsonSurvey = (content: string): ImportedSurvey => {
+  const data = JSON.parse(content) as unknown
+  const root = (Array.isArray(data) ? { questions: data } : data) as Record<string, unknown> | null
+  if (!root || typeof root !== 'object') {
+    throw new Error('O JSON precisa ser um objeto com a lista "questions".')
+  }
+  const rawQuestions = Array.isArray(root.questions) ? root.questions : []
+  const questions = rawQuestions
+    .map((raw, index) => {
+      const question = (raw ?? {}) as Record<string, unknown>
+      const ordem = Number(question.ordem)
+      const rawOptions = Array.isArray(question.options) ? question.options : []
+      return {
+        texto: asText(question.texto),
+        ordem: Number.isFinite(ordem) && ordem > 0 ? ordem : index + 1,
+        tipo: isQuestionType(question.tipo) ? question.tipo : undefined,
+        options: rawOptions
+          .map((rawOption) => {
+            const option = (rawOption ?? {}) as Record<string, unknown>
+            return { texto: asText(option.texto), ativo: parseBoolean(option.ativo) }
+          })
+          .filter((option) => option.texto),
+      }
+    })
+    .sort((a, b) => a.ordem - b.ordem)
+  return {
+    titulo: asText(root.titulo) || undefined,
+    descricao: asText(root.descricao) || null,
+    ativo: root.ativo === undefined ? undefined : parseBoolean(root.ativo),
+    dataValidade: typeof root.dataValidade === 'string' ? root.dataValidade : null,
+    questions,
+  }
+}
+
+export const validateImportedSurvey = (survey: ImportedSurvey, maxActiveOptions: number) => {
+  const issues: ImportIssue[] = []
+  if (survey.questions.length === 0) {
+    issues.push({ severity: 'error', message: 'Nenhuma pergunta encontrada no arquivo.' })
+  }
+  survey.questions.forEach((question, index) => {
+    const label = `Pergunta #${index + 1}`
+    if (!question.texto) {
+      issues.push({ severity: 'error', message: `${label} está sem texto.` })
+    }
+    if (question.tipo && !hasEditableOptions(question.tipo)) return
+    const activeCount = question.options.filter((option) => option.ativo).length
+    if (activeCount > maxActiveOptions) {
+      issues.push({
+        severity: 'error',
+        message: `${label} tem ${activeCount} opções ativas (máximo ${maxActiveOptions}).`,
+      })
+    }
+    if (question.options.length === 0) {
+      issues.push({ severity: 'warning', message: `${label} não tem opções.` })
+    }
+    const texts = question.options.map((option) => option.texto.toLowerCase())
+    if (new Set(texts).size !== texts.length) {
+      issues.push({ severity: 'warning', message: `${label} tem opções repetidas.` })
+    }
+  })
+  const orders = survey.questions.map((question) => question.ordem)
+  if (new Set(orders).size !== orders.length) {
+    issues.push({ severity: 'warning', message: 'Há perguntas com a mesma ordem; elas serão renumeradas.' })
+  }
+  return issues
+}
+
+export const parseSurveyImportFile = async (
+  file: File,
+  maxActiveOptions: number,
+): Promise<SurveyImportResult> => {
+  const content = (await file.text()).replace(/^\uFEFF/, '')
+  const isJson = file.name.toLowerCase().endsWith('.json') || content.trim().startsWith('{')
+  let survey: ImportedSurvey
+  try {
+    survey = isJson ? parseJsonSurvey(content) : parseCsvSurvey(content)
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : ''
+    throw new Error(`Não foi possível ler o arquivo ${file.name}. ${reason}`.trim())
+  }
+  const normalized = {
+    ...survey,
+    questions: survey.questions.map((question, index) => ({ ...question, ordem: index + 1 })),
+  }
+  return { survey: normalized, issues: validateImportedSurvey(survey, maxActiveOptions) }
+}